@@ -3,6 +3,7 @@ import { defineBuildConfig } from 'unbuild'
 export default defineBuildConfig({
   entries: [
     'src/index',
+    'src/collector',
   ],
   clean: false,
   declaration: true,
@@ -10,7 +11,9 @@ export default defineBuildConfig({
     'vite',
     '@modelcontextprotocol/sdk',
     '@modelcontextprotocol/sdk/server/mcp.js',
+    '@modelcontextprotocol/sdk/server/sse.js',
     '@modelcontextprotocol/sdk/server/streamableHttp.js',
+    '@modelcontextprotocol/sdk/types.js',
   ],
   rollup: {
     emitCJS: true,
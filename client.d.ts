@@ -4,14 +4,14 @@ declare module 'virtual:terminal' {
     error: (...obj: any[]) => void
     info: (...obj: any[]) => void
     log: (...obj: any[]) => void
-    table: (obj: any) => void
+    table: (obj: any, columns?: string[]) => void
     warn: (...obj: any[]) => void
-    group: () => void
-    groupCollapsed: () => void
+    group: (...labels: any[]) => void
+    groupCollapsed: (...labels: any[]) => void
     groupEnd: () => void
-    time: (id: string) => void
-    timeLog: (id: string) => void
-    timeEnd: (id: string) => void
+    time: (label?: string, ...data: any[]) => void
+    timeLog: (label?: string, ...data: any[]) => void
+    timeEnd: (label?: string, ...data: any[]) => void
     clear: () => void
     count: (label?: string) => void
     countReset: (label?: string) => void
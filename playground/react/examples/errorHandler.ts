@@ -2,6 +2,8 @@
  * Global error handlers for vite-plugin-terminal-mcp
  *
  * Copy this file into your project and customize as needed.
+ * For the common cases, the `captureErrors` plugin option installs these
+ * handlers for you.
  *
  * Usage:
  * ```ts
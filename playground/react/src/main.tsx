@@ -2,13 +2,9 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import { terminal } from 'virtual:terminal'
 import { TerminalErrorBoundary } from '../examples/ErrorBoundary'
-import { setupErrorHandlers } from '../examples/errorHandler'
 import App from './App'
 import './index.css'
 
-// Setup global error handlers
-setupErrorHandlers({ terminal })
-
 // Log startup
 terminal.info('🚀 React playground starting...')
 terminal.log('Terminal plugin initialized with MCP support')
@@ -12,6 +12,7 @@ export default defineConfig({
     Terminal({
       console: 'terminal',
       output: 'terminal',
+      captureErrors: true,
       mcp: {
         maxLogs: 1000,
         printUrl: true,
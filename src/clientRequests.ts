@@ -0,0 +1,55 @@
+/**
+ * Requests from the dev server to connected browser tabs
+ *
+ * Requests go through Vite's HMR channel to the client runtime, which runs
+ * them and sends back the serialized result or thrown error. Used by the MCP
+ * tools inspecting the page.
+ */
+
+import type { ViteDevServer } from 'vite'
+import { decode, formatArgs } from './serialize'
+
+export interface ClientResponse {
+  /**
+   * Whether the request threw or its promise rejected
+   */
+  failed: boolean
+  /**
+   * Decoded result, or the inspected thrown error
+   */
+  value: any
+}
+
+/**
+ * Send a request to a client. Evaluating expressions (`eval`) is only
+ * supported when the `mcp.allowEval` option is enabled.
+ */
+export type ClientRequester = (clientId: string, type: 'eval' | 'snapshot', data: any, timeout: number) => Promise<ClientResponse>
+
+export function createClientRequester(server: ViteDevServer): ClientRequester {
+  const pending = new Map<number, (response: ClientResponse) => void>()
+  let nextId = 0
+
+  server.ws.on('terminal:response', (data: any) => {
+    const resolve = pending.get(data?.id)
+    if (!resolve)
+      return
+    pending.delete(data.id)
+    resolve('error' in data
+      ? { failed: true, value: formatArgs([data.error]) }
+      : { failed: false, value: decode(data.result) })
+  })
+
+  return (clientId, type, data, timeout) => new Promise((resolve, reject) => {
+    const id = nextId++
+    const timer = setTimeout(() => {
+      pending.delete(id)
+      reject(new Error(`No response from client ${clientId} within ${timeout} ms, the tab may be closed or busy`))
+    }, timeout)
+    pending.set(id, (response) => {
+      clearTimeout(timer)
+      resolve(response)
+    })
+    server.ws.send('terminal:request', { id, clientId, type, data })
+  })
+}
@@ -0,0 +1,168 @@
+/**
+ * Standalone log collector
+ *
+ * Receives the logs of builds served without Vite, when the `collector` option
+ * of the plugin points at it. Logs are printed and exposed through the same
+ * MCP routes as the dev server.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { LogFormat, LogFormatter, TerminalServer } from './receiver'
+import { createServer } from 'node:http'
+import { LogStore } from './logStore'
+import { createMCPServer, setupMCPRoutes } from './mcp-server'
+import { createLogReceiver, setupTerminalRoute } from './receiver'
+
+export type { ClientContext, ClientFilter, LogQuery, LogStoreBackend, StoredLog } from './logStore'
+export { LogStore } from './logStore'
+export type { MCPServerOptions } from './mcp-server'
+export { createMCPServer, setupMCPRoutes } from './mcp-server'
+export type { LogFormat, LogFormatter } from './receiver'
+
+export interface CollectorOptions {
+  /**
+   * @default 5180
+   */
+  port?: number
+  /**
+   * @default 'localhost'
+   */
+  host?: string
+  /**
+   * @default '/__terminal_mcp'
+   */
+  mcpPath?: string
+  /**
+   * Store used by the MCP tools, created with `maxLogs` by default
+   */
+  logStore?: LogStore
+  maxLogs?: number
+  /**
+   * Filter which log levels are stored in MCP
+   * @default ['error', 'warn', 'info', 'log', 'debug', 'assert']
+   */
+  levels?: Array<'error' | 'warn' | 'info' | 'log' | 'debug' | 'assert'>
+  /**
+   * Only store in MCP without printing to terminal
+   * @default false
+   */
+  silent?: boolean
+  /**
+   * Prefix logs with the id and page of the client that sent them
+   * @default false
+   */
+  clientPrefix?: boolean
+  /**
+   * Highlight `console.timeLog()` and `console.timeEnd()` durations at or above this many milliseconds
+   */
+  slowTimerThreshold?: number
+  /**
+   * Wrap long `console.table()` cells on several lines instead of truncating them
+   * @default false
+   */
+  wrapTables?: boolean
+  /**
+   * Preset of the terminal lines
+   * @default 'minimal'
+   */
+  format?: LogFormat
+  /**
+   * Format the terminal lines, return `undefined` to use the `format` preset
+   */
+  formatter?: LogFormatter
+}
+
+export interface Collector {
+  logStore: LogStore
+  /**
+   * URL to set as the `collector` option of the plugin
+   */
+  url: string
+  mcpUrl: string
+  close: () => Promise<void>
+}
+
+type Handler = (req: IncomingMessage, res: ServerResponse, next: (error?: any) => void) => void
+
+/**
+ * Connect-style middlewares, the matched route is removed from `req.url`
+ */
+function createMiddlewares() {
+  const stack: Array<{ route: string, handle: Handler }> = []
+
+  function use(route: string, handle: Handler) {
+    stack.push({ route, handle })
+  }
+
+  function handle(req: IncomingMessage, res: ServerResponse) {
+    const url = req.url ?? '/'
+    const pathname = url.split('?')[0]
+    let index = 0
+    function next(error?: any) {
+      const layer = stack[index++]
+      if (!layer || error) {
+        res.statusCode = error ? 500 : 404
+        res.end(error ? 'Internal Server Error' : 'Not Found')
+        return
+      }
+      if (pathname !== layer.route && !pathname.startsWith(`${layer.route}/`)) {
+        next()
+        return
+      }
+      const rest = url.slice(layer.route.length)
+      req.url = rest[0] === '/' ? rest : `/${rest}`
+      layer.handle(req, res, next)
+    }
+    next()
+  }
+
+  return { use, handle }
+}
+
+/**
+ * Start an HTTP server receiving the logs on `/__terminal` and serving the MCP routes
+ */
+export async function startCollector(options: CollectorOptions = {}): Promise<Collector> {
+  const {
+    port = 5180,
+    host = 'localhost',
+    mcpPath = '/__terminal_mcp',
+    levels = ['error', 'warn', 'info', 'log', 'debug', 'assert'],
+  } = options
+  const logStore = options.logStore ?? new LogStore(options.maxLogs)
+
+  const middlewares = createMiddlewares()
+  const httpServer = createServer(middlewares.handle)
+  const server: TerminalServer = { middlewares, httpServer }
+  if (!options.logStore)
+    httpServer.on('close', () => logStore.close())
+
+  await setupMCPRoutes(mcpPath, () => createMCPServer({ logStore }), server)
+  setupTerminalRoute(server, createLogReceiver({
+    logger: {
+      info: message => console.log(message),
+      warn: message => console.warn(message),
+    },
+    logStore,
+    levels,
+    silent: options.silent,
+    clientPrefix: options.clientPrefix,
+    slowTimerThreshold: options.slowTimerThreshold,
+    wrapTables: options.wrapTables,
+    format: options.format,
+    formatter: options.formatter,
+  }))
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject)
+    httpServer.listen(port, host, () => resolve())
+  })
+
+  const url = `http://${host}:${port}`
+  return {
+    logStore,
+    url,
+    mcpUrl: `${url}${mcpPath}`,
+    close: () => new Promise((resolve, reject) => httpServer.close(error => error ? reject(error) : resolve())),
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Terminal rendering of `%c` styles
+ *
+ * The CSS passed to `console.log('%cText', css)` is mapped to the closest
+ * ANSI styles supported by kolorist.
+ */
+
+import {
+  bgBlack,
+  bgBlue,
+  bgCyan,
+  bgGray,
+  bgGreen,
+  bgLightBlue,
+  bgLightCyan,
+  bgLightGray,
+  bgLightGreen,
+  bgLightMagenta,
+  bgLightRed,
+  bgLightYellow,
+  bgMagenta,
+  bgRed,
+  bgWhite,
+  bgYellow,
+  black,
+  blue,
+  bold,
+  cyan,
+  gray,
+  green,
+  italic,
+  lightBlue,
+  lightCyan,
+  lightGray,
+  lightGreen,
+  lightMagenta,
+  lightRed,
+  lightYellow,
+  magenta,
+  red,
+  strikethrough,
+  underline,
+  white,
+  yellow,
+} from 'kolorist'
+
+type Style = (text: string) => string
+type RGB = [number, number, number]
+
+// xterm default palette
+const PALETTE: Array<{ rgb: RGB, color: Style, background: Style }> = [
+  { rgb: [0, 0, 0], color: black, background: bgBlack },
+  { rgb: [205, 0, 0], color: red, background: bgRed },
+  { rgb: [0, 205, 0], color: green, background: bgGreen },
+  { rgb: [205, 205, 0], color: yellow, background: bgYellow },
+  { rgb: [0, 0, 238], color: blue, background: bgBlue },
+  { rgb: [205, 0, 205], color: magenta, background: bgMagenta },
+  { rgb: [0, 205, 205], color: cyan, background: bgCyan },
+  { rgb: [229, 229, 229], color: lightGray, background: bgLightGray },
+  { rgb: [127, 127, 127], color: gray, background: bgGray },
+  { rgb: [255, 0, 0], color: lightRed, background: bgLightRed },
+  { rgb: [0, 255, 0], color: lightGreen, background: bgLightGreen },
+  { rgb: [255, 255, 0], color: lightYellow, background: bgLightYellow },
+  { rgb: [92, 92, 255], color: lightBlue, background: bgLightBlue },
+  { rgb: [255, 0, 255], color: lightMagenta, background: bgLightMagenta },
+  { rgb: [0, 255, 255], color: lightCyan, background: bgLightCyan },
+  { rgb: [255, 255, 255], color: white, background: bgWhite },
+]
+
+const NAMED_COLORS: Record<string, RGB> = {
+  aqua: [0, 255, 255],
+  black: [0, 0, 0],
+  blue: [0, 0, 255],
+  brown: [165, 42, 42],
+  crimson: [220, 20, 60],
+  cyan: [0, 255, 255],
+  darkblue: [0, 0, 139],
+  darkgreen: [0, 100, 0],
+  darkred: [139, 0, 0],
+  dodgerblue: [30, 144, 255],
+  fuchsia: [255, 0, 255],
+  gold: [255, 215, 0],
+  gray: [128, 128, 128],
+  green: [0, 128, 0],
+  grey: [128, 128, 128],
+  hotpink: [255, 105, 180],
+  indigo: [75, 0, 130],
+  lightblue: [173, 216, 230],
+  lightgray: [211, 211, 211],
+  lightgreen: [144, 238, 144],
+  lime: [0, 255, 0],
+  magenta: [255, 0, 255],
+  maroon: [128, 0, 0],
+  navy: [0, 0, 128],
+  olive: [128, 128, 0],
+  orange: [255, 165, 0],
+  orangered: [255, 69, 0],
+  pink: [255, 192, 203],
+  purple: [128, 0, 128],
+  red: [255, 0, 0],
+  silver: [192, 192, 192],
+  teal: [0, 128, 128],
+  tomato: [255, 99, 71],
+  violet: [238, 130, 238],
+  white: [255, 255, 255],
+  yellow: [255, 255, 0],
+}
+
+/**
+ * Parse a CSS color, `undefined` for unsupported or transparent ones
+ */
+export function parseCssColor(value: string): RGB | undefined {
+  const color = value.trim().toLowerCase()
+  if (color in NAMED_COLORS)
+    return NAMED_COLORS[color]
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/)?.[1]
+  if (hex) {
+    if (hex.length === 3 || hex.length === 4)
+      return [0, 1, 2].map(i => Number.parseInt(hex[i] + hex[i], 16)) as RGB
+    if (hex.length === 6 || hex.length === 8)
+      return [0, 2, 4].map(i => Number.parseInt(hex.slice(i, i + 2), 16)) as RGB
+    return
+  }
+
+  const rgb = color.match(/^rgba?\(([^)]+)\)$/)?.[1]
+  if (rgb) {
+    const [r, g, b, alpha] = rgb.split(/[\s,/]+/).filter(Boolean)
+    if (alpha !== undefined && Number.parseFloat(alpha) === 0)
+      return
+    const channels = [r, g, b].map(channel => channel?.endsWith('%')
+      ? Number.parseFloat(channel) * 2.55
+      : Number.parseFloat(channel))
+    if (channels.every(channel => Number.isFinite(channel)))
+      return channels.map(channel => Math.round(Math.min(255, Math.max(0, channel)))) as RGB
+  }
+}
+
+function closest(rgb: RGB) {
+  let best = PALETTE[0]
+  let bestDistance = Infinity
+  for (const entry of PALETTE) {
+    const distance = entry.rgb.reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0)
+    if (distance < bestDistance) {
+      best = entry
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+/**
+ * Create the ANSI style closest to a `%c` CSS declaration list
+ */
+export function cssToAnsi(css: string): Style {
+  const styles: Style[] = []
+  for (const declaration of css.split(';')) {
+    const separator = declaration.indexOf(':')
+    if (separator === -1)
+      continue
+    const property = declaration.slice(0, separator).trim().toLowerCase()
+    const value = declaration.slice(separator + 1).replace(/!important/i, '').trim().toLowerCase()
+    switch (property) {
+      case 'color': {
+        const rgb = parseCssColor(value)
+        if (rgb)
+          styles.push(closest(rgb).color)
+        break
+      }
+      case 'background':
+      case 'background-color': {
+        const rgb = parseCssColor(value)
+        if (rgb)
+          styles.push(closest(rgb).background)
+        break
+      }
+      case 'font-weight':
+        if (value === 'bold' || value === 'bolder' || Number.parseInt(value) >= 600)
+          styles.push(bold)
+        break
+      case 'font-style':
+        if (value === 'italic' || value === 'oblique')
+          styles.push(italic)
+        break
+      case 'text-decoration':
+      case 'text-decoration-line':
+        if (value.includes('underline'))
+          styles.push(underline)
+        if (value.includes('line-through'))
+          styles.push(strikethrough)
+        break
+    }
+  }
+  return text => styles.reduce((styled, style) => style(styled), text)
+}
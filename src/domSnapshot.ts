@@ -0,0 +1,253 @@
+/**
+ * DOM snapshots for the `get-dom-snapshot` MCP tool
+ */
+
+export interface DomSnapshotOptions {
+  /**
+   * CSS selector of the root element
+   *
+   * @default 'body'
+   */
+  selector?: string
+  /**
+   * - 'dom' - Pruned element tree with the meaningful attributes and text
+   * - 'accessibility' - Outline of roles, accessible names and states
+   *
+   * @default 'dom'
+   */
+  mode?: 'dom' | 'accessibility'
+  /**
+   * Max depth below the root
+   *
+   * @default 12
+   */
+  maxDepth?: number
+  /**
+   * Max length of the snapshot in characters
+   *
+   * @default 20000
+   */
+  maxLength?: number
+}
+
+/**
+ * Render the page as text, in the tab answering a `get-dom-snapshot` request.
+ */
+export function renderDomSnapshot(options: DomSnapshotOptions = {}): string {
+  const { selector = 'body', mode = 'dom', maxDepth = 12, maxLength = 20000 } = options
+  if (typeof document === 'undefined')
+    throw new Error('This client has no DOM')
+  const root = document.querySelector(selector)
+  if (!root)
+    throw new Error(`No element matches ${selector}`)
+
+  const MAX_TEXT_LENGTH = 80
+  const STRIPPED_TAGS = ['script', 'style', 'noscript', 'template', 'svg']
+  const ATTRIBUTES = ['id', 'name', 'type', 'role', 'href', 'src', 'alt', 'title', 'placeholder', 'for', 'disabled', 'checked', 'hidden', 'data-testid']
+  const IMPLICIT_ROLES: Record<string, string> = {
+    a: 'link',
+    article: 'article',
+    aside: 'complementary',
+    button: 'button',
+    dialog: 'dialog',
+    footer: 'contentinfo',
+    form: 'form',
+    header: 'banner',
+    img: 'img',
+    li: 'listitem',
+    main: 'main',
+    nav: 'navigation',
+    ol: 'list',
+    option: 'option',
+    select: 'combobox',
+    table: 'table',
+    textarea: 'textbox',
+    ul: 'list',
+  }
+  const INPUT_ROLES: Record<string, string> = {
+    button: 'button',
+    checkbox: 'checkbox',
+    radio: 'radio',
+    range: 'slider',
+    reset: 'button',
+    search: 'searchbox',
+    submit: 'button',
+  }
+  // Roles named by their content
+  const CONTENT_NAMED_ROLES = ['button', 'link', 'heading', 'listitem', 'option', 'tab', 'menuitem', 'checkbox', 'radio']
+
+  const lines: string[] = []
+  let length = 0
+  let truncated = false
+
+  function push(depth: number, line: string) {
+    if (truncated)
+      return
+    const text = `${'  '.repeat(depth)}${line}`
+    if (length + text.length > maxLength) {
+      truncated = true
+      return
+    }
+    lines.push(text)
+    length += text.length + 1
+  }
+
+  function shorten(text: string) {
+    const collapsed = text.replace(/\s+/g, ' ').trim()
+    return collapsed.length > MAX_TEXT_LENGTH ? `${collapsed.slice(0, MAX_TEXT_LENGTH)}…` : collapsed
+  }
+
+  function isHidden(element: Element) {
+    if (element.hasAttribute('hidden'))
+      return true
+    const style = getComputedStyle(element)
+    return style.display === 'none' || style.visibility === 'hidden'
+  }
+
+  function renderElement(element: Element, depth: number) {
+    const tag = element.tagName.toLowerCase()
+    let line = `<${tag}`
+    const classes = typeof element.className === 'string' ? element.className.trim() : ''
+    if (classes)
+      line += ` class="${shorten(classes)}"`
+    for (const name of ATTRIBUTES) {
+      const value = element.getAttribute(name)
+      if (value !== null)
+        line += value === '' ? ` ${name}` : ` ${name}="${shorten(value)}"`
+    }
+    for (const { name, value } of Array.from(element.attributes)) {
+      if (name.startsWith('aria-'))
+        line += ` ${name}="${shorten(value)}"`
+    }
+    if ((tag === 'input' || tag === 'textarea' || tag === 'select') && (element as HTMLInputElement).value)
+      line += ` value="${shorten((element as HTMLInputElement).value)}"`
+    line += '>'
+    if (isHidden(element))
+      line += ' (hidden)'
+
+    if (STRIPPED_TAGS.includes(tag)) {
+      push(depth, line)
+      return
+    }
+    const children = Array.from(element.childNodes)
+    // Keep a single short text child on the same line
+    if (children.length === 1 && children[0].nodeType === Node.TEXT_NODE) {
+      const text = shorten(children[0].textContent ?? '')
+      push(depth, text ? `${line} "${text}"` : line)
+      return
+    }
+    push(depth, line)
+    if (depth >= maxDepth) {
+      if (element.children.length)
+        push(depth + 1, `… ${element.children.length} ${element.children.length === 1 ? 'child' : 'children'}`)
+      return
+    }
+    for (const child of children) {
+      if (child.nodeType === Node.ELEMENT_NODE) {
+        renderElement(child as Element, depth + 1)
+      }
+      else if (child.nodeType === Node.TEXT_NODE) {
+        const text = shorten(child.textContent ?? '')
+        if (text)
+          push(depth + 1, `"${text}"`)
+      }
+    }
+  }
+
+  function getRole(element: Element) {
+    const explicit = element.getAttribute('role')
+    if (explicit)
+      return explicit.split(' ')[0]
+    const tag = element.tagName.toLowerCase()
+    if (/^h[1-6]$/.test(tag))
+      return 'heading'
+    if (tag === 'a')
+      return element.hasAttribute('href') ? 'link' : undefined
+    if (tag === 'input')
+      return INPUT_ROLES[(element as HTMLInputElement).type] ?? ((element as HTMLInputElement).type === 'hidden' ? undefined : 'textbox')
+    if (tag === 'section' && (element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby')))
+      return 'region'
+    return IMPLICIT_ROLES[tag]
+  }
+
+  function getName(element: Element, role: string) {
+    const label = element.getAttribute('aria-label')
+    if (label)
+      return shorten(label)
+    const labelledBy = element.getAttribute('aria-labelledby')
+    if (labelledBy) {
+      const text = labelledBy.split(' ').map(id => document.getElementById(id)?.textContent ?? '').join(' ')
+      if (text.trim())
+        return shorten(text)
+    }
+    const labels = (element as HTMLInputElement).labels
+    if (labels?.length)
+      return shorten(Array.from(labels).map(label => label.textContent ?? '').join(' '))
+    const alt = element.getAttribute('alt') ?? element.getAttribute('title') ?? element.getAttribute('placeholder')
+    if (alt)
+      return shorten(alt)
+    if (CONTENT_NAMED_ROLES.includes(role))
+      return shorten(element.textContent ?? '')
+    return ''
+  }
+
+  function getStates(element: Element, role: string) {
+    const states: string[] = []
+    if (role === 'heading')
+      states.push(`level=${element.getAttribute('aria-level') ?? element.tagName[1]}`)
+    if ((element as HTMLInputElement).disabled || element.getAttribute('aria-disabled') === 'true')
+      states.push('disabled')
+    if ((element as HTMLInputElement).checked || element.getAttribute('aria-checked') === 'true')
+      states.push('checked')
+    for (const state of ['expanded', 'selected', 'pressed', 'invalid', 'current']) {
+      const value = element.getAttribute(`aria-${state}`)
+      if (value && value !== 'false')
+        states.push(value === 'true' ? state : `${state}=${value}`)
+    }
+    if ((element as HTMLInputElement).required)
+      states.push('required')
+    if (role === 'textbox' || role === 'searchbox' || role === 'combobox' || role === 'slider') {
+      const value = (element as HTMLInputElement).value
+      if (value)
+        states.push(`value="${shorten(value)}"`)
+    }
+    return states.length ? ` [${states.join(', ')}]` : ''
+  }
+
+  function renderOutline(element: Element, depth: number, level: number) {
+    const tag = element.tagName.toLowerCase()
+    if (STRIPPED_TAGS.includes(tag) || element.getAttribute('aria-hidden') === 'true' || isHidden(element))
+      return
+    const role = getRole(element)
+    let childLevel = level
+    if (role && role !== 'presentation' && role !== 'none' && role !== 'generic') {
+      const name = getName(element, role)
+      push(level, `- ${role}${name ? ` "${name}"` : ''}${getStates(element, role)}`)
+      childLevel = level + 1
+      // The name already contains the content
+      if (CONTENT_NAMED_ROLES.includes(role) && !element.querySelector('a[href], button, input, select, textarea, [role]'))
+        return
+    }
+    if (depth >= maxDepth)
+      return
+    for (const child of Array.from(element.childNodes)) {
+      if (child.nodeType === Node.ELEMENT_NODE) {
+        renderOutline(child as Element, depth + 1, childLevel)
+      }
+      else if (child.nodeType === Node.TEXT_NODE) {
+        const text = shorten(child.textContent ?? '')
+        if (text)
+          push(childLevel, `- text "${text}"`)
+      }
+    }
+  }
+
+  if (mode === 'accessibility')
+    renderOutline(root, 0, 0)
+  else
+    renderElement(root, 0)
+
+  if (truncated)
+    lines.push(`… (truncated at ${maxLength} characters)`)
+  return lines.join('\n')
+}
@@ -0,0 +1,107 @@
+/**
+ * Global error capture for the browser runtime
+ *
+ * Injected through `virtual:terminal/errors` when the `captureErrors` option
+ * is enabled.
+ */
+
+export interface CaptureErrorsOptions {
+  /**
+   * Capture uncaught errors from the `error` event
+   *
+   * @default true
+   */
+  unhandled?: boolean
+  /**
+   * Capture unhandled promise rejections
+   *
+   * @default true
+   */
+  rejections?: boolean
+  /**
+   * Forward `console.error` calls when the console isn't already redirected to the terminal
+   *
+   * @default false
+   */
+  consoleError?: boolean
+  /**
+   * Capture failed `<script>`, `<img>` and `<link>` loads
+   *
+   * @default true
+   */
+  resourceErrors?: boolean
+}
+
+export function resolveCaptureErrorsOptions(options: boolean | CaptureErrorsOptions = false): Required<CaptureErrorsOptions> | undefined {
+  if (!options)
+    return
+  const {
+    unhandled = true,
+    rejections = true,
+    consoleError = false,
+    resourceErrors = true,
+  } = options === true ? {} : options
+  return { unhandled, rejections, consoleError, resourceErrors }
+}
+
+/**
+ * Install the global handlers. Errors are reported through the runtime of
+ * `virtual:terminal`, so they are batched with the other logs.
+ */
+export function setupErrorCapture(runtime: {
+  terminal: Record<string, any>
+  send: (type: string, args: any[], extra?: Record<string, any>) => void
+  isForwarding: () => boolean
+}, options: Required<CaptureErrorsOptions>) {
+  const { terminal, send, isForwarding } = runtime
+  let reporting = false
+
+  // Errors thrown while reporting must not be reported again
+  function report(args: any[], source: string) {
+    if (reporting)
+      return
+    reporting = true
+    try {
+      send('error', args, { source })
+    }
+    finally {
+      reporting = false
+    }
+  }
+
+  if (options.unhandled || options.resourceErrors) {
+    // Resource errors don't bubble, they can only be seen in the capture phase
+    addEventListener('error', (event: Event) => {
+      const target = event.target as any
+      if (target && target !== globalThis && typeof target.tagName === 'string') {
+        if (options.resourceErrors)
+          report([`Failed to load resource: <${target.tagName.toLowerCase()}> ${target.src || target.href || ''}`], 'uncaught')
+        return
+      }
+      if (!options.unhandled)
+        return
+      const { error, message, filename, lineno, colno } = event as ErrorEvent
+      report(error != null
+        ? ['Uncaught', error]
+        : [`Uncaught ${message}${filename ? ` (${filename}:${lineno}:${colno})` : ''}`], 'uncaught')
+    }, true)
+  }
+
+  if (options.rejections) {
+    addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
+      report(['Uncaught (in promise)', event.reason], 'uncaught')
+    })
+  }
+
+  // When the console is redirected, console.error already reaches the terminal
+  if (options.consoleError && globalThis.console !== terminal) {
+    const console = globalThis.console
+    const originalError = console.error
+    console.error = function (...args: any[]) {
+      originalError.apply(this, args)
+      // Calls forwarded by the terminal itself were already sent
+      if (!isForwarding())
+        report(args, 'console')
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Error fingerprinting
+ *
+ * Errors sharing a normalized message and their top stack frames are the same
+ * problem, so they are aggregated into a single group.
+ */
+
+import type { StoredLog } from './logStore'
+import type { StackFrame } from './stackTrace'
+import { createHash } from 'node:crypto'
+
+const FINGERPRINT_FRAMES = 3
+
+export interface ErrorGroup {
+  fingerprint: string
+  /**
+   * First line of the most recent error in the group
+   */
+  message: string
+  count: number
+  firstSeen: number
+  lastSeen: number
+  /**
+   * Ids of the clients where the error happened
+   */
+  clientIds: string[]
+  source?: StoredLog['source']
+  stack?: StackFrame[]
+}
+
+/**
+ * First line of the message, without the values that change between occurrences
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .split('\n')[0]
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\b[0-9a-f]{16,}\b/gi, '<hash>')
+    .replace(/\d+(?:\.\d+)?/g, '<n>')
+    .trim()
+}
+
+export function fingerprintError(log: StoredLog): string {
+  // Line numbers shift while editing, functions and files are more stable
+  const frames = (log.stack ?? [])
+    .slice(0, FINGERPRINT_FRAMES)
+    .map(frame => `${frame.file}:${frame.functionName ?? frame.line}`)
+  return createHash('sha1')
+    .update([normalizeErrorMessage(log.message), ...frames].join('\n'))
+    .digest('hex')
+    .slice(0, 12)
+}
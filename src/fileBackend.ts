@@ -0,0 +1,257 @@
+/**
+ * JSONL file backend for the log store
+ *
+ * Logs are appended to `logs.jsonl` inside the storage directory, so they
+ * survive dev server restarts. The file is rotated by size or once its first
+ * log is older than `maxAge`, and older logs are neither reloaded nor kept in
+ * rotated files.
+ */
+
+import type { LogStoreBackend, StoredLog } from './logStore'
+import { Buffer } from 'node:buffer'
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync, utimesSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { MemoryBackend } from './logStore'
+
+export interface FileBackendOptions {
+  /**
+   * Directory where log files are written
+   */
+  path: string
+  /**
+   * Max logs kept in memory and reloaded on startup
+   *
+   * @default 1000
+   */
+  maxLogs?: number
+  /**
+   * Rotate the log file once it exceeds this size in bytes
+   *
+   * @default 5 * 1024 * 1024
+   */
+  maxFileSize?: number
+  /**
+   * Amount of rotated files to keep
+   *
+   * @default 3
+   */
+  maxFiles?: number
+  /**
+   * Max age of reloaded logs and rotated files in milliseconds
+   *
+   * @default 7 * 24 * 60 * 60 * 1000
+   */
+  maxAge?: number
+  /**
+   * Warned when the directory can't be used, the logs are then only kept in memory
+   *
+   * @default console
+   */
+  logger?: { warn: (message: string) => void }
+}
+
+const FILE_NAME = 'logs.jsonl'
+const FLUSH_DELAY_MS = 100
+
+export class FileBackend implements LogStoreBackend {
+  private memory: MemoryBackend
+  private file: string
+  private fileSize = 0
+  // Timestamps of the first log of the current file and of the pending ones
+  private fileStart: number | undefined
+  private pendingStart: number | undefined
+  private pending: string[] = []
+  private flushTimer: ReturnType<typeof setTimeout> | undefined
+  private persisted = true
+  private options: Required<FileBackendOptions>
+
+  constructor(options: FileBackendOptions) {
+    const {
+      path,
+      maxLogs = 1000,
+      maxFileSize = 5 * 1024 * 1024,
+      maxFiles = 3,
+      maxAge = 7 * 24 * 60 * 60 * 1000,
+      logger = console,
+    } = options
+    this.options = { path, maxLogs, maxFileSize, maxFiles, maxAge, logger }
+    this.memory = new MemoryBackend(this.options.maxLogs)
+    this.file = join(this.options.path, FILE_NAME)
+
+    try {
+      mkdirSync(this.options.path, { recursive: true })
+      this.removeExpiredFiles()
+      this.load()
+    }
+    catch (e) {
+      this.persisted = false
+      logger.warn(`Terminal logs can't be stored in ${this.options.path}, they are only kept in memory: ${e}`)
+    }
+  }
+
+  add(log: StoredLog) {
+    this.memory.add(log)
+    if (!this.persisted)
+      return
+    this.pending.push(`${JSON.stringify(log)}\n`)
+    this.pendingStart ??= log.timestamp
+    this.flushTimer ??= setTimeout(() => this.flush(), FLUSH_DELAY_MS)
+  }
+
+  getAll(): StoredLog[] {
+    return this.memory.getAll()
+  }
+
+  clear(predicate?: (log: StoredLog) => boolean) {
+    this.memory.clear(predicate)
+    if (!this.persisted)
+      return
+    try {
+      if (!predicate) {
+        this.pending = []
+        this.pendingStart = undefined
+        this.removeRotatedFiles()
+        writeFileSync(this.file, '')
+        this.fileSize = 0
+        this.fileStart = undefined
+        return
+      }
+      // The other logs are kept in every file, memory only holds the most recent ones
+      this.flush()
+      for (const file of this.files()) {
+        if (!existsSync(file))
+          continue
+        const { mtime } = statSync(file)
+        const logs = parseLines(readFileSync(file, 'utf-8')).filter(log => !predicate(log))
+        const remaining = logs.map(log => `${JSON.stringify(log)}\n`).join('')
+        writeFileSync(file, remaining)
+        // Rotated files expire by modification time, it is kept as is
+        if (file === this.file) {
+          this.fileSize = Buffer.byteLength(remaining)
+          this.fileStart = logs[0]?.timestamp
+        }
+        else {
+          utimesSync(file, mtime, mtime)
+        }
+      }
+    }
+    catch {}
+  }
+
+  close() {
+    this.flush()
+  }
+
+  /**
+   * Write pending logs to disk, rotating the file when it gets too big
+   */
+  flush() {
+    clearTimeout(this.flushTimer)
+    this.flushTimer = undefined
+    if (!this.pending.length)
+      return
+    const data = this.pending.join('')
+    const pendingStart = this.pendingStart
+    this.pending = []
+    this.pendingStart = undefined
+    try {
+      const { maxFileSize, maxAge } = this.options
+      const tooBig = this.fileSize + Buffer.byteLength(data) > maxFileSize
+      const tooOld = this.fileStart !== undefined && this.fileStart < Date.now() - maxAge
+      if (this.fileSize > 0 && (tooBig || tooOld)) {
+        this.rotate()
+        this.removeExpiredFiles()
+      }
+      appendFileSync(this.file, data)
+      this.fileSize += Buffer.byteLength(data)
+      this.fileStart ??= pendingStart
+    }
+    catch {
+      // Persisting logs is best effort, they are still available in memory
+    }
+  }
+
+  private rotatedFile(index: number) {
+    return join(this.options.path, `logs.${index}.jsonl`)
+  }
+
+  private rotate() {
+    const { maxFiles } = this.options
+    if (existsSync(this.rotatedFile(maxFiles)))
+      unlinkSync(this.rotatedFile(maxFiles))
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      if (existsSync(this.rotatedFile(i)))
+        renameSync(this.rotatedFile(i), this.rotatedFile(i + 1))
+    }
+    if (maxFiles > 0)
+      renameSync(this.file, this.rotatedFile(1))
+    else
+      unlinkSync(this.file)
+    this.fileSize = 0
+    this.fileStart = undefined
+  }
+
+  private removeRotatedFiles() {
+    for (let i = 1; i <= this.options.maxFiles; i++) {
+      if (existsSync(this.rotatedFile(i)))
+        unlinkSync(this.rotatedFile(i))
+    }
+  }
+
+  private removeExpiredFiles() {
+    const expiredBefore = Date.now() - this.options.maxAge
+    for (let i = 1; i <= this.options.maxFiles; i++) {
+      const file = this.rotatedFile(i)
+      if (existsSync(file) && statSync(file).mtimeMs < expiredBefore)
+        unlinkSync(file)
+    }
+  }
+
+  /**
+   * Reload the most recent logs, reading rotated files only when needed
+   */
+  private load() {
+    const expiredBefore = Date.now() - this.options.maxAge
+    let logs: StoredLog[] = []
+    for (const file of this.files()) {
+      if (!existsSync(file))
+        continue
+      const content = readFileSync(file, 'utf-8')
+      const fileLogs = parseLines(content)
+      if (file === this.file) {
+        this.fileSize = Buffer.byteLength(content)
+        this.fileStart = fileLogs[0]?.timestamp
+      }
+      const parsed = fileLogs.filter(log => log.timestamp >= expiredBefore)
+      logs = [...parsed, ...logs]
+      if (logs.length >= this.options.maxLogs)
+        break
+    }
+    logs.slice(-this.options.maxLogs).forEach(log => this.memory.add(log))
+  }
+
+  /**
+   * The current file followed by the rotated ones, newest first
+   */
+  private files() {
+    const files = [this.file]
+    for (let i = 1; i <= this.options.maxFiles; i++)
+      files.push(this.rotatedFile(i))
+    return files
+  }
+}
+
+function parseLines(content: string): StoredLog[] {
+  const logs: StoredLog[] = []
+  for (const line of content.split('\n')) {
+    if (!line)
+      continue
+    try {
+      logs.push(JSON.parse(line) as StoredLog)
+    }
+    catch {
+      // Skip lines corrupted by an interrupted write
+    }
+  }
+  return logs
+}
@@ -1,14 +1,28 @@
-import type { Plugin, ResolvedConfig, ViteDevServer } from 'vite'
+import type { HtmlTagDescriptor, Plugin, PreviewServer, ResolvedConfig, ViteDevServer } from 'vite'
+import type { ClientRequester } from './clientRequests'
+import type { DomSnapshotOptions } from './domSnapshot'
+import type { CaptureErrorsOptions } from './errorCapture'
+import type { FileBackendOptions } from './fileBackend'
+import type { LogStoreBackend, StoredLog } from './logStore'
+import type { CaptureNetworkOptions } from './networkCapture'
+import type { IncomingLog, LogBatch, LogFormat, LogFormatter, TerminalServer } from './receiver'
+import type { StackResolver } from './stackTrace'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
 import { existsSync } from 'node:fs'
 import fs from 'node:fs/promises'
 import { homedir } from 'node:os'
-import { join } from 'node:path'
-import readline from 'node:readline'
+import { join, resolve } from 'node:path'
 import rollupPluginStrip from '@rollup/plugin-strip'
-import { lightBlue, lightGray, lightMagenta, lightRed, lightYellow } from 'kolorist'
-import { parseURL } from 'ufo'
-import { dispatchLog } from './logQueue'
-import table from './table'
+import { lightBlue } from 'kolorist'
+import { createClientRequester } from './clientRequests'
+import { renderDomSnapshot } from './domSnapshot'
+import { resolveCaptureErrorsOptions, setupErrorCapture } from './errorCapture'
+import { resolveCaptureNetworkOptions, setupNetworkCapture } from './networkCapture'
+import { createLogReceiver, setupTerminalRoute } from './receiver'
+import { createArgsSerializer, createSerializer } from './serialize'
+import { createStackResolver } from './stackTrace'
+import { setupViteErrorCapture } from './viteErrors'
 
 const virtualId = 'virtual:terminal'
 const virtualResolvedId = `\0${virtualId}`
@@ -16,11 +30,31 @@ const virtualResolvedId = `\0${virtualId}`
 const virtualId_console = 'virtual:terminal/console'
 const virtualResolvedId_console = `\0${virtualId_console}`
 
+const virtualId_errors = 'virtual:terminal/errors'
+const virtualResolvedId_errors = `\0${virtualId_errors}`
+
+const virtualId_network = 'virtual:terminal/network'
+const virtualResolvedId_network = `\0${virtualId_network}`
+
 export type FilterPattern = ReadonlyArray<string | RegExp> | string | RegExp | null
 type OutputType = 'terminal' | 'console'
 export type LogsOutput = OutputType | OutputType[]
+export type Transport = 'http' | 'ws'
+export type { CaptureErrorsOptions, CaptureNetworkOptions, LogFormat, LogFormatter, LogStoreBackend, StoredLog }
 
 declare const terminalUrl: string
+declare const moduleUrl: string
+declare const ssrBridge: ((log: any) => void) | undefined
+declare const transport: Transport
+declare const serialize: (value: any) => any
+declare const serializeArgs: (args: any[]) => any[]
+declare const handleRequests: boolean
+declare const allowEval: boolean
+declare const snapshotDom: (options: DomSnapshotOptions) => string
+declare const hot: {
+  send: (event: string, data?: any) => void
+  on: (event: string, listener: (data: any) => void) => void
+} | undefined
 
 export interface Options {
   /**
@@ -38,7 +72,74 @@ export interface Options {
   output?: LogsOutput
 
   /**
-   * Remove logs in production
+   * Channel used to send logs from the browser to the dev server
+   * - 'http' - Batched POST requests to `/__terminal`
+   * - 'ws' - Vite's HMR WebSocket, falls back to 'http' when HMR is disabled
+   *
+   * @default 'http'
+   */
+  transport?: Transport
+
+  /**
+   * Capture uncaught errors, unhandled rejections and failed resource loads
+   *
+   * @default false
+   */
+  captureErrors?: boolean | CaptureErrorsOptions
+
+  /**
+   * Report failed and slow `fetch` and `XMLHttpRequest` requests
+   *
+   * @default false
+   */
+  captureNetwork?: boolean | CaptureNetworkOptions
+
+  /**
+   * Preset of the terminal lines
+   * - 'minimal' - `» message`
+   * - 'timestamp' - The local time before the message, like Vite's own logs
+   * - 'verbose' - The local time, the console method and the client before the message
+   *
+   * @default 'minimal'
+   */
+  format?: LogFormat
+
+  /**
+   * Format the terminal lines, from the same entry that is stored for MCP.
+   * Return `undefined` to use the `format` preset
+   */
+  formatter?: LogFormatter
+
+  /**
+   * Prefix terminal logs with the id and page of the client that sent them
+   *
+   * @default false
+   */
+  clientPrefix?: boolean
+
+  /**
+   * Highlight `console.timeLog()` and `console.timeEnd()` durations at or above this many milliseconds
+   */
+  slowTimerThreshold?: number
+
+  /**
+   * Wrap long `console.table()` cells on several lines instead of truncating them
+   *
+   * @default false
+   */
+  wrapTables?: boolean
+
+  /**
+   * Keep the terminal in builds, sending the logs to a collector instead of removing them
+   * - true - The server of the page, e.g. `vite preview`
+   * - A URL - A standalone collector, e.g. `'http://localhost:5180'`
+   *
+   * @default false
+   */
+  collector?: boolean | string
+
+  /**
+   * Remove logs in production, disabled when `collector` is set
    *
    * @default true
    */
@@ -82,50 +183,75 @@ export interface Options {
      * @default false
      */
     silent?: boolean
+    /**
+     * Where MCP logs are stored
+     * - 'memory' - Kept in memory, lost when the dev server restarts
+     * - 'file' - Appended to JSONL files in `node_modules/.vite-terminal` and reloaded on startup
+     * - `{ type: 'file', path, ... }` - File storage with a custom directory and rotation
+     * - A custom `LogStoreBackend`
+     * @default 'memory'
+     */
+    storage?: 'memory' | 'file' | FileStorageOptions | LogStoreBackend
+    /**
+     * Expose the `evaluate-in-browser` tool, running expressions sent by the
+     * AI assistant in connected tabs. Only enable it if you trust the assistant
+     * @default false
+     */
+    allowEval?: boolean
   }
 }
 
+export interface FileStorageOptions extends Partial<Omit<FileBackendOptions, 'maxLogs' | 'logger'>> {
+  type: 'file'
+}
+
 interface Terminal {
   assert: (assertion: boolean, obj: any) => void
   error: (...obj: any[]) => void
   info: (...obj: any[]) => void
   log: (...obj: any[]) => void
   debug: (...obj: any[]) => void
-  table: (obj: any) => void
+  table: (obj: any, columns?: string[]) => void
   warn: (...obj: any[]) => void
-  group: () => void
-  groupCollapsed: () => void
+  group: (...labels: any[]) => void
+  groupCollapsed: (...labels: any[]) => void
   groupEnd: () => void
-  time: (id: string) => void
-  timeLog: (id: string) => void
-  timeEnd: (id: string) => void
+  time: (label?: string) => void
+  timeLog: (label?: string, ...obj: any[]) => void
+  timeEnd: (label?: string) => void
   clear: () => void
   count: (label?: string) => void
   countReset: (label?: string) => void
   dir: (object: any) => void
   dirxml: (object: any) => void
   trace: (...args: any[]) => void
-  profile: (...args: any[]) => void
-  profileEnd: (...args: any[]) => void
+  profile: (label?: string) => void
+  profileEnd: (label?: string) => void
 }
 
-const methods = ['assert', 'debug', 'error', 'info', 'log', 'table', 'warn', 'clear'] as const
-type Method = typeof methods[number]
-
-const colors = {
-  log: lightMagenta,
-  info: lightGray,
-  debug: lightBlue,
-  warn: lightYellow,
-  error: lightRed,
-  assert: lightRed,
-}
-
-function groupText(text: string, groupLevel: number) {
-  if (groupLevel !== 0)
-    return `${'  '.repeat(groupLevel)}${text.split('\n').join(`\n${'  '.repeat(groupLevel)}`)}`
-  else
-    return text
+// Every method of the terminal is stripped from builds, the record keeps the list complete
+const terminalMethods: Record<keyof Terminal, true> = {
+  assert: true,
+  error: true,
+  info: true,
+  log: true,
+  debug: true,
+  table: true,
+  warn: true,
+  group: true,
+  groupCollapsed: true,
+  groupEnd: true,
+  time: true,
+  timeLog: true,
+  timeEnd: true,
+  clear: true,
+  count: true,
+  countReset: true,
+  dir: true,
+  dirxml: true,
+  trace: true,
+  profile: true,
+  profileEnd: true,
 }
 
 function pluginTerminal(options: Options = {}) {
@@ -136,8 +262,91 @@ function pluginTerminal(options: Options = {}) {
 
   let config: ResolvedConfig
   let virtualModuleCode: string
+  let ssrModuleCode: string
+  // Global through which the server-side variant reaches this dev server
+  const ssrBridgeKey = `vite-plugin-terminal-mcp:${randomUUID()}`
   let logStore: any = null
 
+  const mcpConfig = typeof options.mcp === 'object' ? options.mcp : {}
+  const mcpLevels = mcpConfig.levels || ['error', 'warn', 'info', 'log', 'debug', 'assert']
+  const mcpSilent = mcpConfig.silent || false
+
+  /**
+   * Create the log store and add the MCP routes. Requests to the clients need
+   * the HMR channel, they are only available on the dev server.
+   */
+  async function setupMCP(server: TerminalServer, port: number, createRequester?: () => ClientRequester) {
+    if (!options.mcp)
+      return
+    // Only the MCP server needs the optional dependencies
+    let mcpServer: typeof import('./mcp-server')
+    try {
+      mcpServer = await import('./mcp-server')
+    }
+    catch {
+      if (mcpConfig.printUrl !== false)
+        config.logger.warn('MCP dependencies not installed. Run: npm install @modelcontextprotocol/sdk zod pathe')
+      return
+    }
+    const { createMCPServer, setupMCPRoutes } = mcpServer
+    const { LogStore } = await import('./logStore')
+    const { FileBackend } = await import('./fileBackend')
+
+    const storage = mcpConfig.storage ?? 'memory'
+    let backend: LogStoreBackend | undefined
+    if (typeof storage === 'object' && 'add' in storage) {
+      backend = storage
+    }
+    else if (storage !== 'memory') {
+      const fileOptions: Partial<FileStorageOptions> = typeof storage === 'object' ? storage : {}
+      backend = new FileBackend({
+        ...fileOptions,
+        path: resolve(config.root, fileOptions.path ?? 'node_modules/.vite-terminal'),
+        maxLogs: mcpConfig.maxLogs,
+        logger: config.logger,
+      })
+    }
+    logStore = new LogStore(mcpConfig.maxLogs, backend)
+    server.httpServer?.on('close', () => logStore.close())
+
+    const mcpPath = mcpConfig.mcpPath || '/__terminal_mcp'
+    const request = createRequester?.()
+    const createServer = () => createMCPServer({
+      logStore,
+      name: mcpConfig.serverName || 'vite-plugin-terminal-mcp',
+      version: '1.3.0',
+      request,
+      allowEval: mcpConfig.allowEval,
+    })
+
+    await setupMCPRoutes(mcpPath, createServer, server)
+
+    if (mcpConfig.printUrl !== false) {
+      const url = `http://localhost:${port}${mcpPath}`
+      setTimeout(() => {
+        config.logger.info(`  ${lightBlue('➜')} Terminal MCP: ${url}`)
+      }, 300)
+
+      // Update config files
+      await updateMcpConfigs(config.root, url, mcpConfig, config)
+    }
+  }
+
+  function createReceiver(resolver?: StackResolver) {
+    return createLogReceiver({
+      logger: config.logger,
+      logStore,
+      levels: mcpLevels,
+      silent: mcpSilent,
+      clientPrefix: options.clientPrefix,
+      slowTimerThreshold: options.slowTimerThreshold,
+      wrapTables: options.wrapTables,
+      format: options.format,
+      formatter: options.formatter,
+      resolver,
+    })
+  }
+
   const terminal = <Plugin>{
     name: 'vite-plugin-terminal-mcp',
     configResolved(_config: ResolvedConfig) {
@@ -148,149 +357,158 @@ function pluginTerminal(options: Options = {}) {
         return virtualResolvedId
       if (id === virtualId_console)
         return virtualResolvedId_console
+      if (id === virtualId_errors)
+        return virtualResolvedId_errors
+      if (id === virtualId_network)
+        return virtualResolvedId_network
     },
-    load(id: string) {
+    load(id: string, loadOptions?: { ssr?: boolean }) {
+      if (loadOptions?.ssr) {
+        if (id === virtualResolvedId) {
+          ssrModuleCode ||= generateVirtualModuleCode('', options.output, 'http', false, false, ssrBridgeKey)
+          return ssrModuleCode
+        }
+        // Node already prints its console and errors to the terminal
+        if (id === virtualResolvedId_console || id === virtualResolvedId_errors || id === virtualResolvedId_network)
+          return 'export {}'
+      }
       if (id === virtualResolvedId) {
-        virtualModuleCode ||= generateVirtualModuleCode(config.server?.origin ?? '', options.output)
+        const transport = options.transport === 'ws' && config.server?.hmr !== false ? 'ws' : 'http'
+        const isBuild = config.command === 'build'
+        // Builds have no HMR channel, the MCP requests can't reach them
+        const handleRequests = !isBuild && !!options.mcp
+        const allowEval = handleRequests && typeof options.mcp === 'object' && !!options.mcp.allowEval
+        // Builds send the logs to the collector, which may be on another origin
+        const url = isBuild && options.collector
+          ? typeof options.collector === 'string' ? options.collector.replace(/\/$/, '') : ''
+          : config.server?.origin ?? ''
+        virtualModuleCode ||= generateVirtualModuleCode(url, options.output, transport, handleRequests, allowEval)
         return virtualModuleCode
       }
       if (id === virtualResolvedId_console)
         return 'import terminal from "virtual:terminal"; globalThis.console = terminal'
+      if (id === virtualResolvedId_errors) {
+        const captureErrors = resolveCaptureErrorsOptions(options.captureErrors)
+        return `import { runtime } from "virtual:terminal"
+(${setupErrorCapture.toString()})(runtime, ${JSON.stringify(captureErrors)})
+`
+      }
+      if (id === virtualResolvedId_network) {
+        const captureNetwork = resolveCaptureNetworkOptions(options.captureNetwork)
+        return `import { runtime } from "virtual:terminal"
+(${setupNetworkCapture.toString()})(runtime, ${JSON.stringify(captureNetwork)})
+`
+      }
     },
     transformIndexHtml: {
       order: 'pre',
       handler() {
+        const tags: HtmlTagDescriptor[] = []
         if (options.console === 'terminal') {
-          return [{
+          tags.push({
             tag: 'script',
             attrs: { type: 'module', src: '/@id/__x00__virtual:terminal/console' },
-          }]
+          })
+        }
+        if (options.captureErrors) {
+          tags.push({
+            tag: 'script',
+            attrs: { type: 'module', src: '/@id/__x00__virtual:terminal/errors' },
+          })
+        }
+        if (options.captureNetwork) {
+          tags.push({
+            tag: 'script',
+            attrs: { type: 'module', src: '/@id/__x00__virtual:terminal/network' },
+          })
         }
+        if (tags.length)
+          return tags
       },
     },
     async configureServer(server: ViteDevServer) {
-      // Setup MCP if enabled
-      const mcpEnabled = !!options.mcp
-      const mcpConfig = typeof options.mcp === 'object' ? options.mcp : {}
-      const mcpLevels = mcpConfig.levels || ['error', 'warn', 'info', 'log', 'debug', 'assert']
-      const mcpSilent = mcpConfig.silent || false
-
-      if (mcpEnabled) {
-        try {
-          const { LogStore } = await import('./logStore')
-          const { createMCPServer, setupMCPRoutes } = await import('./mcp-server')
-
-          logStore = new LogStore(mcpConfig.maxLogs)
-
-          const mcpPath = mcpConfig.mcpPath || '/__terminal_mcp'
-          const mcpServer = createMCPServer({
-            logStore,
-            name: mcpConfig.serverName || 'vite-plugin-terminal-mcp',
-            version: '1.3.0',
-          })
-
-          await setupMCPRoutes(mcpPath, mcpServer, server)
-
-          if (mcpConfig.printUrl !== false) {
-            const port = server.config.server.port || 5173
-            const url = `http://localhost:${port}${mcpPath}`
-            setTimeout(() => {
-              config.logger.info(`  ${lightBlue('➜')} Terminal MCP: ${url}`)
-            }, 300)
-
-            // Update config files
-            await updateMcpConfigs(server.config.root, url, mcpConfig, config)
+      await setupMCP(server, server.config.server.port || 5173, () => createClientRequester(server))
+
+      // Errors of the dev server itself are only stored, Vite already prints them
+      if (logStore) {
+        setupViteErrorCapture(server, (log) => {
+          if (mcpLevels.includes(log.method)) {
+            logStore.add({
+              ...log,
+              timestamp: Date.now(),
+              count: 0,
+              groupLevel: 0,
+              source: 'vite',
+            })
           }
-        }
-        catch {
-          if (mcpConfig.printUrl !== false)
-            config.logger.warn('MCP dependencies not installed. Run: npm install @modelcontextprotocol/sdk zod pathe')
-        }
+        }, terminal.name)
       }
 
-      server.middlewares.use('/__terminal', (req, res) => {
-        const { pathname, search } = parseURL(req.url)
-        const searchParams = new URLSearchParams(search.slice(1))
-        const message = (searchParams.get('m') ?? '').split('\n').join('\n  ')
-        const time = Number.parseInt(searchParams.get('t') ?? '0')
-        const count = Number.parseInt(searchParams.get('c') ?? '0')
-        const groupLevel = Number.parseInt(searchParams.get('g') ?? '0')
-
-        if (pathname[0] === '/') {
-          const method = pathname.slice(1) as Method
-          if (methods.includes(method)) {
-            let run
-            switch (method) {
-              case 'clear': {
-                // Use same logic as in Vite
-                run = () => {
-                  if (process.stdout.isTTY && !process.env.CI) {
-                    const repeatCount = process.stdout.rows - 2
-                    const blank = repeatCount > 0 ? '\n'.repeat(repeatCount) : ''
-
-                    console.log(blank)
-                    readline.cursorTo(process.stdout, 0, 0)
-                    readline.clearScreenDown(process.stdout)
-                  }
-                }
-                break
-              }
-              case 'table': {
-                const obj = JSON.parse(message)
-                const indent = 2 * (groupLevel + 1)
-                run = () => config.logger.info(`» ${table(obj, indent, 2)}`)
-                break
-              }
-              default: {
-                const color = colors[method]
-                const groupedMessage = groupText(message, groupLevel)
-                run = () => config.logger.info(color(`» ${groupedMessage}`))
-                break
-              }
-            }
-
-            // Store in MCP if enabled and log level is allowed
-            const logMethod = method === 'assert' ? 'error' : method
-            const shouldStoreInMCP = logStore && method !== 'clear' && method !== 'table' && mcpLevels.includes(logMethod as any)
-
-            if (shouldStoreInMCP) {
-              logStore.add({
-                method: logMethod,
-                message,
-                timestamp: time,
-                count,
-                groupLevel,
-              })
-            }
-
-            // Only print to terminal if not in silent mode, or if the log level is not being captured by MCP
-            if (!mcpSilent || !shouldStoreInMCP) {
-              dispatchLog({ run, time, count })
-            }
-          }
-        }
-        res.end()
+      const receiveLogs = createReceiver(createStackResolver(server))
+
+      // Logs of the server-side variant, tagged with the request being rendered
+      const ssrRequests = new AsyncLocalStorage<string>()
+      server.middlewares.use((req, _res, next) => ssrRequests.run(req.originalUrl ?? req.url ?? '', next))
+      let ssrLogs = Promise.resolve()
+      ;(globalThis as any)[Symbol.for(ssrBridgeKey)] = (log: IncomingLog) => {
+        const requestUrl = ssrRequests.getStore()
+        ssrLogs = ssrLogs
+          .then(() => receiveLogs({ logs: [{ ...log, source: 'ssr', requestUrl }] }))
+          .catch(e => config.logger.warn(`Failed to receive terminal logs: ${e}`))
+      }
+      server.httpServer?.on('close', () => delete (globalThis as any)[Symbol.for(ssrBridgeKey)])
+
+      server.ws.on('terminal:log', (data: LogBatch) => {
+        if (Array.isArray(data?.logs))
+          receiveLogs(data).catch(e => config.logger.warn(`Failed to receive terminal logs: ${e}`))
       })
+
+      setupTerminalRoute(server, receiveLogs)
+    },
+    async configurePreviewServer(server: PreviewServer) {
+      await setupMCP(server, server.config.preview.port || 4173)
+
+      // The built chunks are served as is, their stack frames are kept
+      setupTerminalRoute(server, createReceiver())
     },
   }
   const strip = <Plugin>{
     ...rollupPluginStrip({
       include,
       exclude,
-      functions: methods.map(name => `terminal.${name}`),
+      functions: Object.keys(terminalMethods).map(name => `terminal.${name}`),
     }),
     apply: 'build',
   }
-  return [terminal, options.strip !== false && strip]
+  return [terminal, options.strip !== false && !options.collector && strip]
 }
 
-function generateVirtualModuleCode(url: string, output?: LogsOutput | LogsOutput[]) {
+/**
+ * With `ssrBridgeKey`, generate the server-side variant handing the logs to the
+ * dev server in the same process, or printing them with the Node console when
+ * there is no dev server, e.g. in SSR builds.
+ *
+ * The runtime functions are serialized into the virtual module with
+ * `toString()`, like `setupErrorCapture` and `setupNetworkCapture` in their own
+ * modules, so they must not reference anything outside of their own body.
+ */
+function generateVirtualModuleCode(url: string, output?: LogsOutput | LogsOutput[], transport: Transport = 'http', handleRequests = false, allowEval = false, ssrBridgeKey?: string) {
   const outputToTerminal = output ? (output === 'terminal' || output.includes('terminal')) : true
   const outputToConsole = output ? (output === 'console' || output.includes('console')) : false
-  return `const outputToTerminal = ${outputToTerminal}
+  return `const ssrBridge = ${ssrBridgeKey ? `globalThis[Symbol.for(${JSON.stringify(ssrBridgeKey)})]` : 'undefined'}
+const outputToTerminal = ${ssrBridgeKey ? '!!ssrBridge' : outputToTerminal}
 const terminalUrl = "${url}"
-const outputToConsole = ${outputToConsole}
-export const terminal = ${createTerminal.toString()}()
+const moduleUrl = import.meta.url
+const transport = "${transport}"
+const handleRequests = ${handleRequests}
+const allowEval = ${allowEval}
+const hot = ${ssrBridgeKey ? 'undefined' : 'import.meta.hot'}
+const outputToConsole = ${ssrBridgeKey ? '!ssrBridge' : outputToConsole}
+const serialize = (${createSerializer.toString()})()
+const serializeArgs = (${createArgsSerializer.toString()})(serialize)
+const snapshotDom = ${handleRequests ? renderDomSnapshot.toString() : 'undefined'}
+export const runtime = (${createTerminal.toString()})()
+export const terminal = runtime.terminal
 export default terminal
 `
 }
@@ -299,87 +517,244 @@ function createTerminal() {
   const console = globalThis.console
   let count = 0
   let groupLevel = 0
+  // Ids of the open groups, innermost last
+  const groups: string[] = []
+  let groupCount = 0
+  // Depth of calls forwarded to the browser console
+  let forwarding = 0
+  // Frames of this module above the caller of `trace()`, bundlers may rename the module
+  let traceFrames = 1
 
   const counters = new Map<string, number>()
 
   const timers = new Map<string, number>()
-  function getTimer(id: string) {
-    return timers.has(id)
-      ? `${id}: ${performance.now() - timers.get(id)!} ms`
-      : `Timer ${id} doesn't exist`
+  function sendTiming(type: string, label: string, objs: any[] = []) {
+    if (!timers.has(label)) {
+      send('warn', [`Timer '${label}' does not exist`])
+      return
+    }
+    const duration = performance.now() - timers.get(label)!
+    send(type, objs, { timing: { label, duration, ended: type === 'timeEnd' } })
+  }
+
+  // Logs are buffered and sent in batches to avoid one request per call
+  const FLUSH_INTERVAL_MS = 50
+  const FLUSH_SIZE = 50
+  const KEEPALIVE_MAX_SIZE = 60 * 1024
+  const queue: any[] = []
+  let flushTimer: ReturnType<typeof setTimeout> | undefined
+
+  const clientId = typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+  const scope = globalThis as any
+  const kind = typeof scope.ServiceWorkerGlobalScope !== 'undefined' && scope instanceof scope.ServiceWorkerGlobalScope
+    ? 'service-worker'
+    : typeof scope.SharedWorkerGlobalScope !== 'undefined' && scope instanceof scope.SharedWorkerGlobalScope
+      ? 'shared-worker'
+      : typeof scope.WorkerGlobalScope !== 'undefined' && scope instanceof scope.WorkerGlobalScope
+        ? 'worker'
+        : scope.top !== scope.self
+          ? 'iframe'
+          : 'window'
+  const isWorker = kind !== 'window' && kind !== 'iframe'
+
+  // Relative URLs resolve against the worker script in workers, which may be a
+  // blob: URL. This module is always served by the dev server.
+  let endpoint = `${terminalUrl}/__terminal`
+  try {
+    endpoint = new URL(endpoint, moduleUrl).href
+  }
+  catch {}
+
+  // The fetch handler of the app's service worker would see the requests of
+  // the pages it controls, skip it so that they reach the dev server
+  if (kind === 'service-worker') {
+    scope.addEventListener('fetch', (event: any) => {
+      if (event.request.url.startsWith(endpoint))
+        event.stopImmediatePropagation()
+    })
+  }
+
+  function getClientContext() {
+    return {
+      id: clientId,
+      kind,
+      name: isWorker && scope.name ? String(scope.name) : undefined,
+      url: scope.location?.href,
+      title: scope.document?.title,
+      userAgent: scope.navigator?.userAgent,
+    }
+  }
+
+  function createBatch(logs: any[]) {
+    return { client: getClientContext(), now: Date.now(), logs }
+  }
+
+  function flush() {
+    clearTimeout(flushTimer)
+    flushTimer = undefined
+    if (!queue.length)
+      return
+    const batch = createBatch(queue.splice(0))
+    // Pages controlled by a service worker avoid its fetch handler too
+    if (hot && (transport === 'ws' || scope.navigator?.serviceWorker?.controller)) {
+      hot.send('terminal:log', batch)
+      return
+    }
+    const body = JSON.stringify(batch)
+    fetch(endpoint, {
+      method: 'POST',
+      body,
+      mode: 'no-cors',
+      // The keepalive quota is in bytes, not UTF-16 code units
+      keepalive: new TextEncoder().encode(body).length < KEEPALIVE_MAX_SIZE,
+    }).catch(() => {})
   }
 
-  function stringify(obj: any) {
-    return JSON.stringify(obj)
+  function send(type: string, args?: any[], extra?: Record<string, any>) {
+    const log = { groupId: groups[groups.length - 1], ...extra, method: type, args: args && (type === 'table' ? args.map(serialize) : serializeArgs(args)), time: Date.now(), count: count++, groupLevel }
+    // Rendering on the server, the dev server runs in the same process
+    if (ssrBridge) {
+      ssrBridge(log)
+      return
+    }
+    queue.push(log)
+    if (queue.length >= FLUSH_SIZE)
+      flush()
+    else
+      flushTimer ??= setTimeout(flush, FLUSH_INTERVAL_MS)
   }
 
-  function prettyPrint(obj: any) {
-    return JSON.stringify(obj, null, 2)
+  function startGroup(type: string, labels: any[]) {
+    const groupId = `${clientId.slice(0, 8)}-${groupCount++}`
+    send(type, labels, { groupId, parentGroupId: groups[groups.length - 1] })
+    groups.push(groupId)
+    groupLevel++
   }
 
-  function stringifyObjs(objs: any[]) {
-    const obj = objs.length > 1 ? objs.map(stringify).join(' ') : objs[0]
-    return typeof obj === 'object' ? `${prettyPrint(obj)}` : obj.toString()
+  // Requests sent by the MCP tools inspecting the page
+  if (handleRequests && hot) {
+    const handlers: Record<string, (data: any) => any> = {
+      snapshot: snapshotDom,
+    }
+    if (allowEval) {
+      // Indirect eval runs the expression in the global scope
+      // eslint-disable-next-line no-eval
+      handlers.eval = expression => (0, eval)(expression)
+    }
+    hot.on('terminal:request', async ({ id, clientId: target, type, data }) => {
+      if (target !== clientId)
+        return
+      try {
+        if (!handlers[type])
+          throw new Error(`Unsupported request: ${type}`)
+        hot.send('terminal:response', { id, result: serialize(await handlers[type](data)) })
+      }
+      catch (error) {
+        hot.send('terminal:response', { id, error: serialize(error) })
+      }
+    })
   }
 
-  function send(type: string, message?: string) {
-    const encodedMessage = message ? `&m=${encodeURI(message)}` : ''
-    fetch(`${terminalUrl}/__terminal/${type}?t=${Date.now()}&c=${count++}&g=${groupLevel}${encodedMessage}`, { mode: 'no-cors' })
+  if (!isWorker && typeof addEventListener === 'function') {
+    addEventListener('pagehide', () => {
+      if (!queue.length || typeof navigator === 'undefined' || !navigator.sendBeacon)
+        return
+      // The HMR socket may already be closing, the beacon is delivered anyway
+      clearTimeout(flushTimer)
+      flushTimer = undefined
+      navigator.sendBeacon(endpoint, JSON.stringify(createBatch(queue.splice(0))))
+    })
   }
 
   const terminal = {
-    log(...objs: any[]) { send('log', stringifyObjs(objs)) },
-    info(...objs: any[]) { send('info', stringifyObjs(objs)) },
-    debug(...objs: any[]) { send('debug', stringifyObjs(objs)) },
-    warn(...objs: any[]) { send('warn', stringifyObjs(objs)) },
-    error(...objs: any[]) { send('error', stringifyObjs(objs)) },
+    log(...objs: any[]) { send('log', objs) },
+    info(...objs: any[]) { send('info', objs) },
+    debug(...objs: any[]) { send('debug', objs) },
+    warn(...objs: any[]) { send('warn', objs) },
+    error(...objs: any[]) { send('error', objs) },
     assert(assertion: boolean, ...objs: any[]) {
-      if (!assertion)
-        send('assert', `Assertion failed: ${stringifyObjs(objs)}`)
+      if (assertion)
+        return
+      // Keep a format string first so that its specifiers are substituted
+      if (typeof objs[0] === 'string')
+        send('assert', [`Assertion failed: ${objs[0]}`, ...objs.slice(1)])
+      else
+        send('assert', objs.length ? ['Assertion failed:', ...objs] : ['Assertion failed'])
     },
-    table(obj: any) { send('table', prettyPrint(obj)) },
-    group() {
-      groupLevel++
+    table(obj: any, columns?: string[]) { send('table', columns ? [obj, columns] : [obj]) },
+    group(...labels: any[]) {
+      startGroup('group', labels)
     },
-    groupCollapsed() {
-      groupLevel++
+    groupCollapsed(...labels: any[]) {
+      startGroup('groupCollapsed', labels)
     },
     groupEnd() {
-      groupLevel && --groupLevel
+      if (!groups.length)
+        return
+      groupLevel--
+      const groupId = groups.pop()
+      send('groupEnd', [], { groupId, parentGroupId: groups[groups.length - 1] })
     },
-    time(id: string) {
-      timers.set(id, performance.now())
+    time(label = 'default') {
+      if (timers.has(label)) {
+        send('warn', [`Timer '${label}' already exists`])
+        return
+      }
+      timers.set(label, performance.now())
     },
-    timeLog(id: string, ...objs: any[]) {
-      send('log', `${getTimer(id)} ${stringifyObjs(objs)}`)
+    timeLog(label = 'default', ...objs: any[]) {
+      sendTiming('timeLog', label, objs)
     },
-    timeEnd(id: string) {
-      send('log', getTimer(id))
-      timers.delete(id)
+    timeEnd(label = 'default') {
+      sendTiming('timeEnd', label)
+      timers.delete(label)
     },
     count(label?: string) {
       const l = label || 'default'
       const n = (counters.get(l) || 0) + 1
       counters.set(l, n)
-      send('log', `${l}: ${n}`)
+      send('log', [`${l}: ${n}`])
     },
     countReset(label?: string) {
       const l = label || 'default'
       counters.set(l, 0)
-      send('log', `${l}: 0`)
+      send('log', [`${l}: 0`])
     },
     clear() {
       send('clear')
     },
     dir(obj: any) {
-      send('log', prettyPrint(obj))
+      send('log', [obj])
     },
     dirxml(obj: any) {
-      send('log', prettyPrint(obj))
+      send('log', [obj])
+    },
+    trace(...objs: any[]) {
+      // Keep the frames of the caller, drop the message line and the frames of this module
+      const stack = (new Error('console.trace').stack ?? '')
+        .split('\n')
+        .filter(line => /:\d+:\d+\)?$/.test(line.trim()))
+        .slice(traceFrames)
+        .join('\n')
+      send('trace', objs, { stack })
+    },
+    profile(label = 'default') {
+      performance.mark(`terminal:profile:${label}`)
+    },
+    profileEnd(label = 'default') {
+      const mark = `terminal:profile:${label}`
+      if (!performance.getEntriesByName(mark, 'mark').length) {
+        send('warn', [`Profile '${label}' does not exist`])
+        return
+      }
+      // The measure also shows up in the performance panel of the devtools
+      const measure = performance.measure(label, mark)
+      performance.clearMarks(mark)
+      send('profileEnd', [label], { duration: measure?.duration ?? 0 })
     },
-    trace(...args: any[]) { console.trace(...args) },
-    profile(...args: any[]) { console.profile(...args) },
-    profileEnd(...args: any[]) { console.profileEnd(...args) },
   }
 
   function defineOutput(terminal: Terminal): Terminal {
@@ -390,20 +765,28 @@ function createTerminal() {
     if (!outputToTerminal)
       return console as Terminal
     // Log to both the terminal and the console
-    const unsupportedMethods = ['trace', 'profile', 'profileEnd']
+    traceFrames++
     const multicast: Record<string, any> = {}
     Object.keys(terminal).forEach((method) => {
-      multicast[method] = unsupportedMethods.includes(method)
-        ? (console as any)[method]
-        : (...args: any[]) => {
-            (console as any)[method](...args);
-            (terminal as any)[method](...args)
-          }
+      multicast[method] = (...args: any[]) => {
+        forwarding++
+        try {
+          (console as any)[method](...args)
+        }
+        finally {
+          forwarding--
+        }
+        (terminal as any)[method](...args)
+      }
     })
     return multicast as Terminal
   }
 
-  return defineOutput(terminal)
+  return {
+    terminal: defineOutput(terminal),
+    send,
+    isForwarding: () => forwarding > 0,
+  }
 }
 
 async function updateMcpConfigs(
@@ -457,7 +840,7 @@ async function updateMcpConfigs(
       mcp.servers ||= {}
       mcp.servers[serverName] = {
         type: 'sse',
-        url: mcpUrl,
+        url: `${mcpUrl}/sse`,
       }
       await fs.writeFile(configPath, `${JSON.stringify(mcp, null, 2)}\n`)
       config.logger.info(`  ${lightBlue('➜')} Updated ${configPath}`)
@@ -3,6 +3,10 @@ const DISPATCH_DELAY_TIME_MS = 50
 interface QueuedLog {
   time: number
   count: number
+  /**
+   * Counts are only comparable between logs of the same client
+   */
+  clientId?: string
   run: () => void
 }
 
@@ -19,7 +23,7 @@ export function dispatchLog(log: QueuedLog) {
 
 function addToOrderedQueue(log: QueuedLog) {
   const i = queue.findIndex((l) => {
-    return l.time > log.time || (l.time === log.time && l.count > log.count)
+    return l.time > log.time || (l.time === log.time && l.clientId === log.clientId && l.count > log.count)
   })
   if (i === -1)
     queue.push(log)
@@ -1,16 +1,322 @@
 /**
- * In-memory store for console logs from the browser
+ * Store for console logs from the browser
+ *
+ * Logs are kept by a pluggable backend, in memory by default.
  */
 
+import type { ErrorGroup } from './errorGroups'
+import type { StackFrame } from './stackTrace'
+import type { TimingSample, TimingStats } from './timings'
+import { Buffer } from 'node:buffer'
+import { fingerprintError } from './errorGroups'
+import { summarizeTimings } from './timings'
+
+const MAX_ERROR_GROUPS = 500
+const MAX_TIMING_LABELS = 500
+// Stats are computed over the most recent measurements of each label
+const MAX_TIMING_SAMPLES = 1000
+
+/**
+ * Where a log comes from
+ * - 'console' - Calls to the terminal or the redirected console
+ * - 'uncaught' - Uncaught errors, unhandled rejections and failed resource loads
+ * - 'vite' - Errors and warnings of the dev server itself
+ * - 'ssr' - Calls to the terminal in modules rendered on the server
+ */
+export type LogSource = 'console' | 'uncaught' | 'vite' | 'ssr'
+
+/**
+ * Kind of entry
+ * - 'log' - Console logs and errors
+ * - 'network' - Failed or slow requests reported by the network capture
+ * - 'groupStart' - `console.group()` and `console.groupCollapsed()`, the message is the label
+ * - 'groupEnd' - `console.groupEnd()`
+ * - 'trace' - `console.trace()`, the frames are in the stack
+ * - 'timing' - `console.timeLog()` and `console.timeEnd()` measurements
+ * - 'table' - `console.table()`, the message is the table in Markdown
+ */
+export type LogKind = 'log' | 'network' | 'groupStart' | 'groupEnd' | 'trace' | 'timing' | 'table'
+
+/**
+ * Measurement of a `console.time()` timer
+ */
+export interface Timing {
+  label: string
+  /**
+   * Duration in milliseconds
+   */
+  duration: number
+  /**
+   * Measured by `console.timeEnd()`
+   */
+  ended: boolean
+}
+
+/**
+ * Data of a `console.table()`, the cells are formatted as text
+ */
+export interface TableData {
+  /**
+   * Starts with the `(index)` column
+   */
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * Request reported by the network capture
+ */
+export interface NetworkRequest {
+  initiator: 'fetch' | 'xhr'
+  method: string
+  url: string
+  /**
+   * Missing when the request failed without a response
+   */
+  status?: number
+  statusText?: string
+  /**
+   * Duration in milliseconds
+   */
+  duration: number
+  /**
+   * Error thrown by `fetch`, e.g. CORS and connection failures
+   */
+  error?: string
+  /**
+   * Truncated response body of failed requests
+   */
+  body?: string
+  failed: boolean
+  slow: boolean
+}
+
+/**
+ * Browser context a log was sent from
+ */
+export type ClientKind = 'window' | 'iframe' | 'worker' | 'shared-worker' | 'service-worker'
+
+export interface ClientContext {
+  /**
+   * Id generated by each terminal instance
+   */
+  id: string
+  kind: ClientKind
+  /**
+   * Name given to a dedicated or shared worker
+   */
+  name?: string
+  url?: string
+  title?: string
+  userAgent?: string
+}
+
+export interface ClientInfo extends ClientContext {
+  firstSeen: number
+  lastSeen: number
+  logCount: number
+}
+
+export interface ClientFilter {
+  /**
+   * Client id or a prefix of it
+   */
+  clientId?: string
+  /**
+   * Substring of the page URL
+   */
+  url?: string
+  kind?: ClientKind
+  /**
+   * Worker name
+   */
+  name?: string
+}
+
 export interface StoredLog {
+  /**
+   * Sequence number assigned by the store, increasing in arrival order
+   */
+  id?: number
   method: 'log' | 'info' | 'debug' | 'warn' | 'error' | 'assert'
+  /**
+   * @default 'log'
+   */
+  kind?: LogKind
   message: string
   timestamp: number
   count: number
   groupLevel: number
+  source?: LogSource
+  client?: ClientContext
+  /**
+   * URL of the request being rendered, for logs of server-side rendering
+   */
+  requestUrl?: string
+  network?: NetworkRequest
+  timing?: Timing
+  table?: TableData
+  /**
+   * Group the log belongs to. For group start and end entries, the group itself
+   */
+  groupId?: string
+  /**
+   * Group enclosing a started or ended group
+   */
+  parentGroupId?: string
+  /**
+   * Started with `console.groupCollapsed()`
+   */
+  collapsed?: boolean
+  /**
+   * Stack frames resolved to the original sources
+   */
+  stack?: StackFrame[]
 }
 
-export class LogStore {
+export interface LogQuery extends ClientFilter {
+  /**
+   * Case-insensitive substring or regular expression matched against the message
+   */
+  message?: string | RegExp
+  levels?: StoredLog['method'][]
+  /**
+   * Only include logs at or after this timestamp
+   */
+  from?: number
+  /**
+   * Only include logs at or before this timestamp
+   */
+  to?: number
+  /**
+   * Arrival order of the results
+   *
+   * @default 'asc'
+   */
+  order?: 'asc' | 'desc'
+  /**
+   * Max logs per page
+   *
+   * @default 50
+   */
+  limit?: number
+  /**
+   * Cursor returned by a previous query to get the next page
+   */
+  cursor?: string
+}
+
+export interface LogQueryResult {
+  logs: StoredLog[]
+  /**
+   * Amount of logs matching the query, across all pages
+   */
+  total: number
+  /**
+   * Cursor for the next page, if there are more results
+   */
+  nextCursor?: string
+}
+
+export interface ErrorGroupQuery extends ClientFilter {
+  /**
+   * Rank by occurrences or by last occurrence
+   *
+   * @default 'count'
+   */
+  sort?: 'count' | 'recent'
+  limit?: number
+}
+
+export interface TimingQuery extends ClientFilter {
+  /**
+   * Case-insensitive substring of the label
+   */
+  label?: string
+  /**
+   * Rank by 95th percentile, average, max duration or number of measurements
+   *
+   * @default 'p95'
+   */
+  sort?: 'p95' | 'avg' | 'max' | 'count'
+  limit?: number
+}
+
+export function hasClientFilter(filter: ClientFilter = {}): boolean {
+  return !!(filter.clientId || filter.url || filter.kind || filter.name)
+}
+
+function matchesContext(client: ClientContext | undefined, filter: ClientFilter = {}): boolean {
+  if (filter.clientId && !client?.id.startsWith(filter.clientId))
+    return false
+  if (filter.url && !client?.url?.includes(filter.url))
+    return false
+  if (filter.kind && client?.kind !== filter.kind)
+    return false
+  if (filter.name && client?.name !== filter.name)
+    return false
+  return true
+}
+
+export function matchesClient(log: StoredLog, filter: ClientFilter = {}): boolean {
+  return matchesContext(log.client, filter)
+}
+
+function matchesQuery(log: StoredLog, query: LogQuery): boolean {
+  const { message, levels, from, to } = query
+  if (levels?.length && !levels.includes(log.method))
+    return false
+  if (from !== undefined && log.timestamp < from)
+    return false
+  if (to !== undefined && log.timestamp > to)
+    return false
+  if (typeof message === 'string' && !log.message.toLowerCase().includes(message.toLowerCase()))
+    return false
+  if (message instanceof RegExp) {
+    message.lastIndex = 0
+    if (!message.test(log.message))
+      return false
+  }
+  return matchesClient(log, query)
+}
+
+function encodeCursor(id: number): string {
+  return Buffer.from(JSON.stringify({ id })).toString('base64url')
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { id } = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    if (typeof id === 'number')
+      return id
+  }
+  catch {}
+  throw new Error(`Invalid cursor: ${cursor}`)
+}
+
+/**
+ * Storage used by the log store
+ */
+export interface LogStoreBackend {
+  /**
+   * Store a log, dropping the oldest ones past the backend limits
+   */
+  add: (log: StoredLog) => void
+  /**
+   * Stored logs, oldest first. The returned array must not be mutated
+   */
+  getAll: () => StoredLog[]
+  /**
+   * Remove the logs matching the predicate, or every log
+   */
+  clear: (predicate?: (log: StoredLog) => boolean) => void
+  /**
+   * Flush pending writes and release resources
+   */
+  close?: () => void
+}
+
+export class MemoryBackend implements LogStoreBackend {
   private logs: StoredLog[] = []
   private maxSize: number
 
@@ -27,32 +333,255 @@ export class LogStore {
   }
 
   getAll(): StoredLog[] {
-    return [...this.logs]
+    return this.logs
+  }
+
+  clear(predicate?: (log: StoredLog) => boolean) {
+    this.logs = predicate ? this.logs.filter(log => !predicate(log)) : []
+  }
+}
+
+export type LogListener = (log: StoredLog) => void
+
+export class LogStore {
+  private backend: LogStoreBackend
+  private clients = new Map<string, ClientInfo>()
+  private listeners = new Set<LogListener>()
+  private errorGroups = new Map<string, ErrorGroup>()
+  private timings = new Map<string, TimingSample[]>()
+  private nextId = 0
+
+  constructor(maxSize = 1000, backend: LogStoreBackend = new MemoryBackend(maxSize)) {
+    this.backend = backend
+    // Logs reloaded by persistent backends
+    this.backend.getAll().forEach((log) => {
+      log.id ??= this.nextId
+      this.nextId = Math.max(this.nextId, log.id + 1)
+      this.trackClient(log)
+      this.trackError(log)
+      this.trackTiming(log)
+    })
+  }
+
+  private get logs(): StoredLog[] {
+    return this.backend.getAll()
+  }
+
+  private trackClient(log: StoredLog) {
+    if (!log.client)
+      return
+    const known = this.clients.get(log.client.id)
+    this.clients.set(log.client.id, {
+      ...log.client,
+      firstSeen: known?.firstSeen ?? log.timestamp,
+      lastSeen: Math.max(known?.lastSeen ?? 0, log.timestamp),
+      logCount: (known?.logCount ?? 0) + 1,
+    })
   }
 
-  getByLevel(level: StoredLog['method']): StoredLog[] {
-    return this.logs.filter(log => log.method === level)
+  /**
+   * Aggregate errors by fingerprint. Groups outlive the logs dropped by the backend
+   */
+  private trackError(log: StoredLog) {
+    if (log.method !== 'error' && log.method !== 'assert')
+      return
+    const fingerprint = fingerprintError(log)
+    const known = this.errorGroups.get(fingerprint)
+    const clientIds = known?.clientIds ?? []
+    if (log.client && !clientIds.includes(log.client.id))
+      clientIds.push(log.client.id)
+
+    // Reinsert so that the least recently seen group comes first
+    this.errorGroups.delete(fingerprint)
+    this.errorGroups.set(fingerprint, {
+      fingerprint,
+      message: log.message.split('\n')[0],
+      count: (known?.count ?? 0) + 1,
+      firstSeen: known?.firstSeen ?? log.timestamp,
+      lastSeen: Math.max(known?.lastSeen ?? 0, log.timestamp),
+      clientIds,
+      source: log.source,
+      stack: known?.stack ?? log.stack,
+    })
+    if (this.errorGroups.size > MAX_ERROR_GROUPS)
+      this.errorGroups.delete(this.errorGroups.keys().next().value!)
   }
 
-  getErrors(): StoredLog[] {
-    return this.logs.filter(log => log.method === 'error' || log.method === 'assert')
+  /**
+   * Keep the durations of each timer label. Like error groups, they outlive the logs dropped by the backend
+   */
+  private trackTiming(log: StoredLog) {
+    if (!log.timing)
+      return
+    const { label, duration } = log.timing
+    const samples = this.timings.get(label) ?? []
+    samples.push({ duration, timestamp: log.timestamp, clientId: log.client?.id })
+    if (samples.length > MAX_TIMING_SAMPLES)
+      samples.shift()
+
+    // Reinsert so that the least recently measured label comes first
+    this.timings.delete(label)
+    this.timings.set(label, samples)
+    if (this.timings.size > MAX_TIMING_LABELS)
+      this.timings.delete(this.timings.keys().next().value!)
   }
 
-  getRecent(count: number): StoredLog[] {
-    return this.logs.slice(-count)
+  add(log: StoredLog) {
+    const stored = { ...log, id: this.nextId++ }
+    this.backend.add(stored)
+    this.trackClient(stored)
+    this.trackError(stored)
+    this.trackTiming(stored)
+    this.listeners.forEach(listener => listener(stored))
   }
 
-  getRecentErrors(count: number): StoredLog[] {
-    const errors = this.getErrors()
+  /**
+   * Listen to logs as they are stored. Returns a function removing the listener
+   */
+  onLog(listener: LogListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  getAll(filter?: ClientFilter): StoredLog[] {
+    return this.logs.filter(log => matchesClient(log, filter))
+  }
+
+  getByLevel(level: StoredLog['method'], filter?: ClientFilter): StoredLog[] {
+    return this.logs.filter(log => log.method === level && matchesClient(log, filter))
+  }
+
+  getErrors(filter?: ClientFilter): StoredLog[] {
+    return this.logs.filter(log => (log.method === 'error' || log.method === 'assert') && matchesClient(log, filter))
+  }
+
+  /**
+   * Failed requests, and slow ones if asked
+   */
+  getNetworkRequests(options: { includeSlow?: boolean } = {}, filter?: ClientFilter): StoredLog[] {
+    return this.logs.filter(log => log.kind === 'network'
+      && (log.network?.failed || options.includeSlow)
+      && matchesClient(log, filter))
+  }
+
+  getRecent(count: number, filter?: ClientFilter): StoredLog[] {
+    return this.getAll(filter).slice(-count)
+  }
+
+  getRecentErrors(count: number, filter?: ClientFilter): StoredLog[] {
+    const errors = this.getErrors(filter)
     return errors.slice(-count)
   }
 
-  getSince(timestamp: number): StoredLog[] {
-    return this.logs.filter(log => log.timestamp >= timestamp)
+  getSince(timestamp: number, filter?: ClientFilter): StoredLog[] {
+    return this.logs.filter(log => log.timestamp >= timestamp && matchesClient(log, filter))
+  }
+
+  /**
+   * Search logs, one page at a time
+   */
+  query(query: LogQuery = {}): LogQueryResult {
+    const { order = 'asc', cursor } = query
+    const limit = Math.max(1, query.limit ?? 50)
+    const matches = this.logs.filter(log => matchesQuery(log, query))
+    if (order === 'desc')
+      matches.reverse()
+
+    let start = 0
+    if (cursor !== undefined) {
+      const after = decodeCursor(cursor)
+      start = matches.findIndex(log => order === 'asc' ? log.id! > after : log.id! < after)
+      if (start === -1)
+        start = matches.length
+    }
+    const logs = matches.slice(start, start + limit)
+    const hasMore = start + limit < matches.length
+    return {
+      logs,
+      total: matches.length,
+      nextCursor: hasMore ? encodeCursor(logs[logs.length - 1].id!) : undefined,
+    }
+  }
+
+  /**
+   * Clients that sent at least one stored log, most recently active first
+   */
+  getClients(filter?: ClientFilter): ClientInfo[] {
+    return [...this.clients.values()]
+      .filter(client => matchesContext(client, filter))
+      .sort((a, b) => b.lastSeen - a.lastSeen)
+  }
+
+  /**
+   * Distinct errors, most frequent or most recent first
+   */
+  getErrorGroups(query: ErrorGroupQuery = {}): ErrorGroup[] {
+    const { sort = 'count', limit } = query
+    let groups = [...this.errorGroups.values()]
+    if (hasClientFilter(query)) {
+      const clientIds = new Set(this.getClients(query).map(client => client.id))
+      groups = groups.filter(group => group.clientIds.some(id => clientIds.has(id)))
+    }
+    groups.sort((a, b) => sort === 'recent'
+      ? b.lastSeen - a.lastSeen
+      : b.count - a.count || b.lastSeen - a.lastSeen)
+    return limit === undefined ? groups : groups.slice(0, limit)
+  }
+
+  /**
+   * Duration stats per timer label, slowest first
+   */
+  getTimings(query: TimingQuery = {}): TimingStats[] {
+    const { sort = 'p95', limit } = query
+    const clientIds = hasClientFilter(query)
+      ? new Set(this.getClients(query).map(client => client.id))
+      : undefined
+    const label = query.label?.toLowerCase()
+    const stats: TimingStats[] = []
+    this.timings.forEach((samples, key) => {
+      if (label && !key.toLowerCase().includes(label))
+        return
+      const matching = clientIds ? samples.filter(sample => sample.clientId && clientIds.has(sample.clientId)) : samples
+      if (matching.length)
+        stats.push(summarizeTimings(key, matching))
+    })
+    stats.sort((a, b) => b[sort] - a[sort] || b.lastSeen - a.lastSeen)
+    return limit === undefined ? stats : stats.slice(0, limit)
+  }
+
+  /**
+   * Remove stored logs, only the ones matching the filter if given
+   */
+  clear(filter?: ClientFilter) {
+    if (!hasClientFilter(filter)) {
+      this.backend.clear()
+      this.clients.clear()
+      this.errorGroups.clear()
+      this.timings.clear()
+      return
+    }
+    this.backend.clear(log => matchesClient(log, filter))
+    const clientIds = new Set(this.getClients(filter).map(client => client.id))
+    // Forget the groups that only happened in the cleared clients
+    this.errorGroups.forEach((group, fingerprint) => {
+      const remaining = group.clientIds.filter(id => !clientIds.has(id))
+      if (group.clientIds.length && !remaining.length)
+        this.errorGroups.delete(fingerprint)
+      else
+        group.clientIds = remaining
+    })
+    this.timings.forEach((samples, label) => {
+      const remaining = samples.filter(sample => !sample.clientId || !clientIds.has(sample.clientId))
+      if (remaining.length)
+        this.timings.set(label, remaining)
+      else
+        this.timings.delete(label)
+    })
+    clientIds.forEach(id => this.clients.delete(id))
   }
 
-  clear() {
-    this.logs = []
+  close() {
+    this.backend.close?.()
   }
 
   get size(): number {
@@ -1,28 +1,63 @@
 /**
  * MCP Server for retrieving browser console logs
  *
- * Integrated into the Vite plugin using StreamableHTTP transport
+ * Integrated into the Vite plugin using StreamableHTTP transport, with a
+ * legacy SSE endpoint for older clients
  */
 
 import type { IncomingMessage, ServerResponse } from 'node:http'
-import type { ViteDevServer } from 'vite'
-import type { LogStore } from './logStore'
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ClientRequester } from './clientRequests'
+import type { ErrorGroup } from './errorGroups'
+import type { ClientContext, ClientInfo, LogStore, StoredLog } from './logStore'
+import type { TerminalServer } from './receiver'
+import type { TimingStats } from './timings'
+import { randomUUID } from 'node:crypto'
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js'
 import { z } from 'zod'
+import { inspectValue } from './serialize'
+import { formatFrame } from './stackTrace'
+
+const levels = ['log', 'info', 'debug', 'warn', 'error', 'assert'] as const
+
+const clientFilterSchema = {
+  clientId: z.string().optional().describe('Only include logs from this client (see list-clients)'),
+  url: z.string().optional().describe('Only include logs from pages whose URL contains this string'),
+  kind: z.enum(['window', 'iframe', 'worker', 'shared-worker', 'service-worker']).optional().describe('Only include logs from this kind of client'),
+  name: z.string().optional().describe('Only include logs from the worker with this name'),
+}
+
+const RESOURCE_LOGS_COUNT = 100
+const REQUEST_TIMEOUT = 5000
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000
 
 export interface MCPServerOptions {
   logStore: LogStore
   name?: string
   version?: string
+  /**
+   * Send requests to connected tabs, the tools inspecting the page are only registered when set
+   */
+  request?: ClientRequester
+  /**
+   * Register the `evaluate-in-browser` tool
+   */
+  allowEval?: boolean
 }
 
 export function createMCPServer(options: MCPServerOptions): McpServer {
-  const { logStore, name = 'vite-plugin-terminal-mcp', version = '1.4.1' } = options
+  const { logStore, request, allowEval, name = 'vite-plugin-terminal-mcp', version = '1.4.1' } = options
 
   const server = new McpServer({
     name,
     version,
+  }, {
+    capabilities: {
+      logging: {},
+      resources: { subscribe: true },
+    },
   })
 
   // Tool: Get Console Errors
@@ -31,11 +66,11 @@ export function createMCPServer(options: MCPServerOptions): McpServer {
     {
       title: 'Get Console Errors',
       description: 'Retrieve recent console errors from the browser. Returns the most recent error messages logged to the browser console.',
-      inputSchema: { count: z.number().optional() } as any,
+      inputSchema: { count: z.number().optional(), ...clientFilterSchema } as any,
       outputSchema: { errors: z.array(z.any()) } as any,
     },
-    async ({ count }: any) => {
-      const errors = logStore.getRecentErrors(count ?? 10)
+    async ({ count, clientId, url, kind, name }: any) => {
+      const errors = logStore.getRecentErrors(count ?? 10, { clientId, url, kind, name })
       const output = { errors, count: errors.length }
       return {
         content: [{
@@ -52,21 +87,23 @@ export function createMCPServer(options: MCPServerOptions): McpServer {
     'get-console-logs',
     {
       title: 'Get Console Logs',
-      description: 'Retrieve recent console logs from the browser. Can filter by log level (log, info, debug, warn, error).',
+      description: 'Retrieve recent console logs from the browser. Can filter by log level (log, info, debug, warn, error). console.table() data is shown as Markdown tables, with the headers and rows of each table in the structured logs.',
       inputSchema: {
         count: z.number().optional(),
         level: z.enum(['log', 'info', 'debug', 'warn', 'error', 'assert', 'all']).optional(),
+        tree: z.boolean().optional().describe('Also return the logs nested in their console.group() as a tree'),
+        ...clientFilterSchema,
       } as any,
-      outputSchema: { logs: z.array(z.any()), count: z.number() } as any,
+      outputSchema: { logs: z.array(z.any()), count: z.number(), tree: z.array(z.any()).optional() } as any,
     },
-    async ({ count, level }: any) => {
+    async ({ count, level, tree, clientId, url, kind, name }: any) => {
       const finalCount = count ?? 50
       const finalLevel = level ?? 'all'
       const logs = finalLevel === 'all'
-        ? logStore.getRecent(finalCount)
-        : logStore.getByLevel(finalLevel as any).slice(-finalCount)
+        ? logStore.getRecent(finalCount, { clientId, url, kind, name })
+        : logStore.getByLevel(finalLevel as any, { clientId, url, kind, name }).slice(-finalCount)
 
-      const output = { logs, count: logs.length, level: finalLevel }
+      const output = { logs, count: logs.length, level: finalLevel, tree: tree ? buildLogTree(logs) : undefined }
       return {
         content: [{
           type: 'text' as const,
@@ -86,12 +123,13 @@ export function createMCPServer(options: MCPServerOptions): McpServer {
       inputSchema: {
         timestamp: z.number(),
         level: z.enum(['log', 'info', 'debug', 'warn', 'error', 'assert', 'all']).optional(),
+        ...clientFilterSchema,
       } as any,
       outputSchema: { logs: z.array(z.any()), count: z.number(), since: z.string() } as any,
     },
-    async ({ timestamp, level }: any) => {
+    async ({ timestamp, level, clientId, url, kind, name }: any) => {
       const finalLevel = level ?? 'all'
-      let logs = logStore.getSince(timestamp)
+      let logs = logStore.getSince(timestamp, { clientId, url, kind, name })
       if (finalLevel !== 'all')
         logs = logs.filter(log => log.method === finalLevel)
 
@@ -106,23 +144,64 @@ export function createMCPServer(options: MCPServerOptions): McpServer {
     },
   )
 
+  // Tool: Search Console Logs
+  server.registerTool(
+    'search-console-logs',
+    {
+      title: 'Search Console Logs',
+      description: 'Search console logs by message (substring or regex), levels, time range and client. Results are paginated: pass the returned cursor to get the next page.',
+      inputSchema: {
+        query: z.string().optional().describe('Text to find in the message, case-insensitive unless caseSensitive is set'),
+        regex: z.boolean().optional().describe('Treat query as a regular expression'),
+        caseSensitive: z.boolean().optional(),
+        levels: z.array(z.enum(levels)).optional(),
+        from: z.number().optional().describe('Only include logs at or after this timestamp (ms)'),
+        to: z.number().optional().describe('Only include logs at or before this timestamp (ms)'),
+        order: z.enum(['asc', 'desc']).optional().describe('Oldest first (asc, default) or newest first (desc)'),
+        limit: z.number().int().min(1).max(500).optional().describe('Max logs per page, 50 by default'),
+        cursor: z.string().optional().describe('Cursor returned by a previous search to get the next page'),
+        ...clientFilterSchema,
+      } as any,
+      outputSchema: { logs: z.array(z.any()), count: z.number(), total: z.number(), nextCursor: z.string().optional() } as any,
+    },
+    async ({ query, regex, caseSensitive, levels, from, to, order, limit, cursor, clientId, url, kind, name }: any) => {
+      let message: string | RegExp | undefined = query
+      if (query && (regex || caseSensitive))
+        message = new RegExp(regex ? query : escapeRegExp(query), caseSensitive ? '' : 'i')
+
+      const result = logStore.query({ message, levels, from, to, order, limit, cursor, clientId, url, kind, name })
+      const output = { ...result, count: result.logs.length }
+      const more = result.nextCursor
+        ? `\n\n${result.total} matching logs, more results available with cursor: ${result.nextCursor}`
+        : ''
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `${formatLogs(result.logs, 'Search Results')}${more}`,
+        }],
+        structuredContent: output,
+      }
+    },
+  )
+
   // Tool: Clear Console Logs
   server.registerTool(
     'clear-console-logs',
     {
       title: 'Clear Console Logs',
-      description: 'Clear all stored console logs from memory.',
-      inputSchema: {} as any,
+      description: 'Clear stored console logs from memory. Can be limited to a client or page URL.',
+      inputSchema: { ...clientFilterSchema } as any,
       outputSchema: { cleared: z.number(), success: z.boolean() } as any,
     },
-    async () => {
+    async ({ clientId, url, kind, name }: any) => {
       const previousSize = logStore.size
-      logStore.clear()
-      const output = { cleared: previousSize, success: true }
+      logStore.clear({ clientId, url, kind, name })
+      const cleared = previousSize - logStore.size
+      const output = { cleared, success: true }
       return {
         content: [{
           type: 'text' as const,
-          text: `Cleared ${previousSize} console logs from memory.`,
+          text: `Cleared ${cleared} console logs from memory.`,
         }],
         structuredContent: output,
       }
@@ -135,7 +214,7 @@ export function createMCPServer(options: MCPServerOptions): McpServer {
     {
       title: 'Get Console Stats',
       description: 'Get statistics about stored console logs (total count, error count, etc.).',
-      inputSchema: {} as any,
+      inputSchema: { ...clientFilterSchema } as any,
       outputSchema: {
         total: z.number(),
         errors: z.number(),
@@ -145,15 +224,18 @@ export function createMCPServer(options: MCPServerOptions): McpServer {
         log: z.number(),
         oldestTimestamp: z.number().nullable(),
         newestTimestamp: z.number().nullable(),
+        errorGroups: z.object({ total: z.number(), top: z.array(z.any()) }),
       } as any,
     },
-    async () => {
-      const all = logStore.getAll()
-      const errors = logStore.getErrors()
-      const warnings = logStore.getByLevel('warn')
-      const info = logStore.getByLevel('info')
-      const debug = logStore.getByLevel('debug')
-      const regular = logStore.getByLevel('log')
+    async ({ clientId, url, kind, name }: any) => {
+      const filter = { clientId, url, kind, name }
+      const all = logStore.getAll(filter)
+      const errors = logStore.getErrors(filter)
+      const warnings = logStore.getByLevel('warn', filter)
+      const info = logStore.getByLevel('info', filter)
+      const debug = logStore.getByLevel('debug', filter)
+      const regular = logStore.getByLevel('log', filter)
+      const errorGroups = logStore.getErrorGroups(filter)
 
       const stats = {
         total: all.length,
@@ -164,6 +246,10 @@ export function createMCPServer(options: MCPServerOptions): McpServer {
         log: regular.length,
         oldestTimestamp: all.length > 0 ? all[0].timestamp : null,
         newestTimestamp: all.length > 0 ? all[all.length - 1].timestamp : null,
+        errorGroups: {
+          total: errorGroups.length,
+          top: errorGroups.slice(0, 5).map(({ fingerprint, message, count }) => ({ fingerprint, message, count })),
+        },
       }
 
       return {
@@ -176,61 +262,548 @@ export function createMCPServer(options: MCPServerOptions): McpServer {
     },
   )
 
+  // Tool: Get Error Groups
+  server.registerTool(
+    'get-error-groups',
+    {
+      title: 'Get Error Groups',
+      description: 'List distinct errors, grouped by normalized message and top stack frames, with their occurrence count, first/last seen time and affected clients. Use it instead of get-console-errors when the same error is logged repeatedly.',
+      inputSchema: {
+        sort: z.enum(['count', 'recent']).optional().describe('Rank by occurrences (count, default) or by last occurrence (recent)'),
+        limit: z.number().optional(),
+        ...clientFilterSchema,
+      } as any,
+      outputSchema: { groups: z.array(z.any()), count: z.number() } as any,
+    },
+    async ({ sort, limit, clientId, url, kind, name }: any) => {
+      const groups = logStore.getErrorGroups({ sort, limit: limit ?? 20, clientId, url, kind, name })
+      const output = { groups, count: groups.length }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: formatErrorGroups(groups),
+        }],
+        structuredContent: output,
+      }
+    },
+  )
+
+  // Tool: Get Timings
+  server.registerTool(
+    'get-timings',
+    {
+      title: 'Get Timings',
+      description: 'Summarize the durations measured with console.time()/timeLog()/timeEnd() per label: count, min, max, average and 95th percentile in milliseconds, slowest first. Use it to spot slow code paths.',
+      inputSchema: {
+        label: z.string().optional().describe('Case-insensitive substring of the timer label'),
+        sort: z.enum(['p95', 'avg', 'max', 'count']).optional().describe('Rank by 95th percentile (default), average, max duration or number of measurements'),
+        limit: z.number().optional(),
+        ...clientFilterSchema,
+      } as any,
+      outputSchema: { timings: z.array(z.any()), count: z.number() } as any,
+    },
+    async ({ label, sort, limit, clientId, url, kind, name }: any) => {
+      const timings = logStore.getTimings({ label, sort, limit: limit ?? 20, clientId, url, kind, name })
+      const output = { timings, count: timings.length }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: formatTimings(timings),
+        }],
+        structuredContent: output,
+      }
+    },
+  )
+
+  // Tool: Get Network Errors
+  server.registerTool(
+    'get-network-errors',
+    {
+      title: 'Get Network Errors',
+      description: 'Retrieve failed network requests (HTTP errors, CORS and connection failures) made by the browser with fetch or XMLHttpRequest, with method, URL, status, duration and response body. Requires the captureNetwork option.',
+      inputSchema: {
+        count: z.number().optional(),
+        includeSlow: z.boolean().optional().describe('Also include successful requests slower than the configured threshold'),
+        ...clientFilterSchema,
+      } as any,
+      outputSchema: { requests: z.array(z.any()), count: z.number() } as any,
+    },
+    async ({ count, includeSlow, clientId, url, kind, name }: any) => {
+      const requests = logStore.getNetworkRequests({ includeSlow }, { clientId, url, kind, name }).slice(-(count ?? 20))
+      const output = { requests, count: requests.length }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: formatLogs(requests, includeSlow ? 'Failed and Slow Network Requests' : 'Failed Network Requests'),
+        }],
+        structuredContent: output,
+      }
+    },
+  )
+
+  // Tool: List Clients
+  server.registerTool(
+    'list-clients',
+    {
+      title: 'List Clients',
+      description: 'List the browser tabs, iframes and workers that sent console logs, with their page URL, title and user agent. Use the returned ids to filter the other tools by clientId.',
+      inputSchema: { ...clientFilterSchema } as any,
+      outputSchema: { clients: z.array(z.any()), count: z.number() } as any,
+    },
+    async ({ clientId, url, kind, name }: any) => {
+      const clients = logStore.getClients({ clientId, url, kind, name })
+      const output = { clients, count: clients.length }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: formatClients(clients),
+        }],
+        structuredContent: output,
+      }
+    },
+  )
+
+  /**
+   * Client matching an id prefix, the most recently active one by default
+   */
+  function resolveClient(clientId: string | undefined, filter: (client: ClientInfo) => boolean = () => true): ClientInfo {
+    const clients = logStore.getClients({ clientId }).filter(filter)
+    const client = clients.find(client => client.id === clientId) ?? clients[0]
+    if (!client)
+      throw new Error('No connected client found.')
+    if (clientId && clients.length > 1 && client.id !== clientId)
+      throw new Error(`Several clients match "${clientId}", use a longer id.`)
+    return client
+  }
+
+  // Tool: Get DOM Snapshot
+  if (request) {
+    server.registerTool(
+      'get-dom-snapshot',
+      {
+        title: 'Get DOM Snapshot',
+        description: 'Get the rendered page of a connected browser tab as text: a pruned DOM tree (tags, meaningful attributes, text, hidden elements) or an accessibility outline (roles, accessible names and states). Script and style contents are stripped. Defaults to the most recently active tab (see list-clients).',
+        inputSchema: {
+          selector: z.string().optional().describe('CSS selector of the root element, body by default'),
+          mode: z.enum(['dom', 'accessibility']).optional().describe('Pruned DOM tree (dom, default) or accessibility outline'),
+          maxDepth: z.number().int().min(1).optional().describe('Max depth below the root, 12 by default'),
+          maxLength: z.number().int().min(100).optional().describe('Max length of the snapshot in characters, 20000 by default'),
+          clientId: z.string().optional().describe('Client to snapshot, or a prefix of its id'),
+        } as any,
+        outputSchema: { clientId: z.string(), url: z.string().optional(), snapshot: z.string() } as any,
+      },
+      async ({ selector, mode, maxDepth, maxLength, clientId }: any) => {
+        const client = resolveClient(clientId, client => client.kind === 'window' || client.kind === 'iframe')
+        const response = await request(client.id, 'snapshot', { selector, mode, maxDepth, maxLength }, REQUEST_TIMEOUT)
+        if (response.failed)
+          throw new Error(`Snapshot failed in ${client.id.slice(0, 8)}: ${response.value}`)
+
+        const output = { clientId: client.id, url: client.url, snapshot: response.value }
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `${mode === 'accessibility' ? 'Accessibility Outline' : 'DOM Snapshot'} of ${client.id.slice(0, 8)} (${client.url ?? 'unknown'}):\n\n${response.value}`,
+          }],
+          structuredContent: output,
+        }
+      },
+    )
+  }
+
+  // Tool: Evaluate In Browser
+  if (request && allowEval) {
+    server.registerTool(
+      'evaluate-in-browser',
+      {
+        title: 'Evaluate In Browser',
+        description: 'Evaluate a JavaScript expression in a connected browser tab and return its result or thrown error. Promises are awaited. Runs in the global scope of the page, defaults to the most recently active client (see list-clients).',
+        inputSchema: {
+          expression: z.string(),
+          clientId: z.string().optional().describe('Client to run the expression in, or a prefix of its id'),
+          timeout: z.number().int().min(100).max(60000).optional().describe(`Milliseconds to wait for the result, ${REQUEST_TIMEOUT} by default`),
+        } as any,
+        outputSchema: { clientId: z.string(), failed: z.boolean(), value: z.string() } as any,
+      },
+      async ({ expression, clientId, timeout }: any) => {
+        const client = resolveClient(clientId)
+        const response = await request(client.id, 'eval', expression, timeout ?? REQUEST_TIMEOUT)
+        const value = response.failed ? response.value : inspectValue(response.value)
+        const output = { clientId: client.id, failed: response.failed, value }
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `${response.failed ? 'Evaluation failed' : 'Result'} in ${client.id.slice(0, 8)} (${client.url ?? 'unknown'}):\n\n${value}`,
+          }],
+          structuredContent: output,
+          isError: response.failed,
+        }
+      },
+    )
+  }
+
+  // Resources: logs that clients can attach as context and subscribe to
+  const subscriptions = new Set<string>()
+
+  function matchesResource(uri: string, log: StoredLog) {
+    if (uri === 'console://logs')
+      return true
+    if (uri === 'console://errors')
+      return log.method === 'error' || log.method === 'assert'
+    return uri === `console://logs/${log.method}`
+  }
+
+  server.registerResource(
+    'console-logs',
+    'console://logs',
+    {
+      title: 'Console Logs',
+      description: 'Most recent console logs from the browser',
+      mimeType: 'text/plain',
+    },
+    async uri => ({
+      contents: [{
+        uri: uri.href,
+        mimeType: 'text/plain',
+        text: formatLogs(logStore.getRecent(RESOURCE_LOGS_COUNT), 'Recent Console Logs'),
+      }],
+    }),
+  )
+
+  server.registerResource(
+    'console-errors',
+    'console://errors',
+    {
+      title: 'Console Errors',
+      description: 'Most recent console errors from the browser',
+      mimeType: 'text/plain',
+    },
+    async uri => ({
+      contents: [{
+        uri: uri.href,
+        mimeType: 'text/plain',
+        text: formatLogs(logStore.getRecentErrors(RESOURCE_LOGS_COUNT), 'Recent Console Errors'),
+      }],
+    }),
+  )
+
+  server.registerResource(
+    'console-logs-by-level',
+    new ResourceTemplate('console://logs/{level}', {
+      list: async () => ({
+        resources: levels.map(level => ({
+          uri: `console://logs/${level}`,
+          name: `console-logs-${level}`,
+          title: `Console Logs (${level})`,
+          mimeType: 'text/plain',
+        })),
+      }),
+      complete: {
+        level: value => levels.filter(level => level.startsWith(value)),
+      },
+    }),
+    {
+      title: 'Console Logs by Level',
+      description: 'Most recent console logs from the browser with a given level (log, info, debug, warn, error, assert)',
+      mimeType: 'text/plain',
+    },
+    async (uri, { level }) => ({
+      contents: [{
+        uri: uri.href,
+        mimeType: 'text/plain',
+        text: formatLogs(logStore.getByLevel(level as StoredLog['method']).slice(-RESOURCE_LOGS_COUNT), `Recent Console Logs (${level})`),
+      }],
+    }),
+  )
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri)
+    return {}
+  })
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri)
+    return {}
+  })
+
+  const unsubscribe = logStore.onLog((log) => {
+    if (!server.isConnected())
+      return
+    subscriptions.forEach((uri) => {
+      if (matchesResource(uri, log))
+        server.server.sendResourceUpdated({ uri }).catch(() => {})
+    })
+    // Push new errors to clients listening for log messages
+    if (log.method === 'error' || log.method === 'assert')
+      server.sendLoggingMessage({ level: 'error', logger: 'browser-console', data: formatLog(log) }).catch(() => {})
+  })
+  server.server.onclose = unsubscribe
+
   return server
 }
 
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function formatErrorGroups(groups: ErrorGroup[]): string {
+  if (groups.length === 0)
+    return 'Error Groups: No errors found.'
+
+  const formatted = groups.map((group) => {
+    const firstSeen = new Date(group.firstSeen).toISOString()
+    const lastSeen = new Date(group.lastSeen).toISOString()
+    const frame = group.stack?.[0]
+    return [
+      `- ${group.count}x ${group.message} [${group.fingerprint}]`,
+      `  First seen ${firstSeen}, last seen ${lastSeen}, clients: ${group.clientIds.length}`,
+      frame ? formatFrame(frame) : null,
+    ].filter(Boolean).join('\n')
+  }).join('\n')
+
+  return `Error Groups (${groups.length}):\n\n${formatted}`
+}
+
+function formatTimings(timings: TimingStats[]): string {
+  if (timings.length === 0)
+    return 'Timings: No measurements found.'
+
+  const ms = (duration: number) => `${duration.toFixed(1)} ms`
+  const formatted = timings.map((timing) => {
+    const lastSeen = new Date(timing.lastSeen).toISOString()
+    return [
+      `- ${timing.label}: p95 ${ms(timing.p95)}, avg ${ms(timing.avg)}, min ${ms(timing.min)}, max ${ms(timing.max)} (${timing.count} measurements)`,
+      `  Last ${ms(timing.last)} at ${lastSeen}, clients: ${timing.clientIds.length}`,
+    ].join('\n')
+  }).join('\n')
+
+  return `Timings (${timings.length}):\n\n${formatted}`
+}
+
+function formatClients(clients: ClientInfo[]): string {
+  if (clients.length === 0)
+    return 'Connected Clients: No clients found.'
+
+  const formatted = clients.map((client) => {
+    const lastSeen = new Date(client.lastSeen).toISOString()
+    return [
+      `- ${client.id} (${client.name ? `${client.kind} "${client.name}"` : client.kind})`,
+      `  URL: ${client.url ?? 'unknown'}`,
+      client.title ? `  Title: ${client.title}` : null,
+      client.userAgent ? `  User Agent: ${client.userAgent}` : null,
+      `  Logs: ${client.logCount}, last seen ${lastSeen}`,
+    ].filter(Boolean).join('\n')
+  }).join('\n')
+
+  return `Connected Clients (${clients.length}):\n\n${formatted}`
+}
+
+export interface LogTreeNode extends StoredLog {
+  /**
+   * Logs of a group start entry
+   */
+  children?: LogTreeNode[]
+}
+
+/**
+ * Nest logs in their groups. Logs whose group started before the given logs stay at the root
+ */
+function buildLogTree(logs: StoredLog[]): LogTreeNode[] {
+  const roots: LogTreeNode[] = []
+  const groups = new Map<string, LogTreeNode>()
+  for (const log of logs) {
+    if (log.kind === 'groupEnd')
+      continue
+    const node: LogTreeNode = log.kind === 'groupStart' ? { ...log, children: [] } : log
+    const parentId = log.kind === 'groupStart' ? log.parentGroupId : log.groupId
+    const parent = parentId ? groups.get(parentId) : undefined
+    if (parent)
+      parent.children!.push(node)
+    else
+      roots.push(node)
+    if (log.kind === 'groupStart' && log.groupId)
+      groups.set(log.groupId, node)
+  }
+  return roots
+}
+
 function formatLogs(logs: any[], title: string): string {
-  if (logs.length === 0)
+  // Group ends are implied by the indentation
+  const visible = (logs as StoredLog[]).filter(log => log.kind !== 'groupEnd')
+  if (visible.length === 0)
     return `${title}: No logs found.`
 
-  const formatted = logs.map((log) => {
-    const date = new Date(log.timestamp).toISOString()
-    const indent = '  '.repeat(log.groupLevel)
-    return `[${date}] [${log.method.toUpperCase()}] ${indent}${log.message}`
-  }).join('\n')
+  const formatted = visible.map(formatLog).join('\n')
 
-  return `${title} (${logs.length} entries):\n\n${formatted}`
+  return `${title} (${visible.length} entries):\n\n${formatted}`
 }
 
 /**
- * Setup MCP routes using StreamableHTTP transport
+ * Short client id, with the kind and name of frames and workers
+ */
+function formatClientTag(client: ClientContext): string {
+  const id = client.id.slice(0, 8)
+  if (client.kind === 'window')
+    return id
+  return `${id} ${client.kind}${client.name ? ` "${client.name}"` : ''}`
+}
+
+function formatLog(log: StoredLog): string {
+  const date = new Date(log.timestamp).toISOString()
+  const indent = '  '.repeat(log.groupLevel)
+  const source = log.kind === 'network'
+    ? ' [network]'
+    : log.source && log.source !== 'console' ? ` [${log.source}${log.requestUrl ? ` ${log.requestUrl}` : ''}]` : ''
+  const client = log.client ? ` [${formatClientTag(log.client)}]` : ''
+  if (log.kind === 'groupStart')
+    return `[${date}] [GROUP]${source}${client} ${indent}${log.collapsed ? '▸' : '▾'} ${log.message}`
+  // Not indented, the Markdown table would become a code block
+  if (log.kind === 'table')
+    return `[${date}] [TABLE]${source}${client}\n\n${log.message}\n`
+  return `[${date}] [${log.method.toUpperCase()}]${source}${client} ${indent}${log.message}`
+}
+
+function readJson(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body))
+      }
+      catch (e) {
+        reject(e)
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+function sendError(res: ServerResponse, statusCode: number, message: string) {
+  res.statusCode = statusCode
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }))
+}
+
+/**
+ * Setup MCP routes
+ *
+ * - `POST {base}` - StreamableHTTP requests. An `initialize` request opens a
+ *   session, requests without a session id are handled statelessly
+ * - `GET {base}` - Server-sent notifications for a session
+ * - `DELETE {base}` - Close a session
+ * - `GET {base}/sse` and `POST {base}/messages` - Legacy SSE transport
+ *
+ * Every session gets its own server from `createServer`.
  */
 export async function setupMCPRoutes(
   base: string,
-  server: McpServer,
-  vite: ViteDevServer,
+  createServer: () => McpServer,
+  server: TerminalServer,
 ): Promise<void> {
-  // Single endpoint for MCP requests
-  vite.middlewares.use(`${base}`, async (req: IncomingMessage, res: ServerResponse) => {
-    if (req.method !== 'POST') {
-      res.statusCode = 405
-      res.end('Method Not Allowed')
-      return
-    }
+  const sessions = new Map<string, StreamableHTTPServerTransport>()
+  const sseSessions = new Map<string, SSEServerTransport>()
+  const idleTimers = new Map<string, ReturnType<typeof setTimeout>>()
 
-    // Create a new transport for each request to prevent request ID collisions
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-      enableJsonResponse: true,
-    })
+  // Idle sessions are closed, clients start a new one when they get a 404
+  function keepAlive(sessionId: string) {
+    clearTimeout(idleTimers.get(sessionId))
+    const timer = setTimeout(() => sessions.get(sessionId)?.close(), SESSION_IDLE_TIMEOUT)
+    timer.unref?.()
+    idleTimers.set(sessionId, timer)
+  }
 
-    res.on('close', () => {
-      transport.close()
-    })
+  server.httpServer?.on('close', () => {
+    sessions.forEach(transport => transport.close())
+    sseSessions.forEach(transport => transport.close())
+  })
 
-    // Read request body
-    let body = ''
-    req.on('data', chunk => body += chunk)
-    req.on('end', async () => {
-      try {
-        const requestBody = JSON.parse(body)
-        await server.connect(transport)
-        await transport.handleRequest(req, res, requestBody)
+  server.middlewares.use(`${base}`, async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+
+    try {
+      // Legacy SSE transport
+      if (url.pathname === '/sse' && req.method === 'GET') {
+        const transport = new SSEServerTransport(`${base}/messages`, res)
+        sseSessions.set(transport.sessionId, transport)
+        transport.onclose = () => sseSessions.delete(transport.sessionId)
+        await createServer().connect(transport)
+        return
+      }
+      if (url.pathname === '/messages' && req.method === 'POST') {
+        const transport = sseSessions.get(url.searchParams.get('sessionId') ?? '')
+        if (!transport)
+          return sendError(res, 404, 'Session not found')
+        await transport.handlePostMessage(req, res, await readJson(req))
+        return
+      }
+      if (url.pathname !== '/') {
+        res.statusCode = 404
+        res.end('Not Found')
+        return
+      }
+
+      const sessionId = req.headers['mcp-session-id'] as string | undefined
+      if (req.method === 'GET' || req.method === 'DELETE') {
+        const transport = sessionId && sessions.get(sessionId)
+        if (!transport)
+          return sendError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Missing session id')
+        keepAlive(sessionId)
+        await transport.handleRequest(req, res)
+        return
+      }
+      if (req.method !== 'POST') {
+        res.statusCode = 405
+        res.end('Method Not Allowed')
+        return
+      }
+
+      const body = await readJson(req)
+      if (sessionId) {
+        const transport = sessions.get(sessionId)
+        if (!transport)
+          return sendError(res, 404, 'Session not found')
+        keepAlive(sessionId)
+        await transport.handleRequest(req, res, body)
+        return
+      }
+
+      if (isInitializeRequest(body)) {
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          enableJsonResponse: true,
+          onsessioninitialized: (id) => {
+            sessions.set(id, transport)
+            keepAlive(id)
+          },
+        })
+        // Closing the transport also closes its server, which removes its log listener
+        transport.onclose = () => {
+          if (transport.sessionId) {
+            sessions.delete(transport.sessionId)
+            clearTimeout(idleTimers.get(transport.sessionId))
+            idleTimers.delete(transport.sessionId)
+          }
+        }
+        await createServer().connect(transport)
+        await transport.handleRequest(req, res, body)
+        return
       }
-      catch {
+
+      // Stateless request, create a new transport to prevent request ID collisions
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+        enableJsonResponse: true,
+      })
+      res.on('close', () => {
+        transport.close()
+      })
+      await createServer().connect(transport)
+      await transport.handleRequest(req, res, body)
+    }
+    catch {
+      if (!res.headersSent) {
         res.statusCode = 400
         res.end(JSON.stringify({ error: 'Invalid request' }))
       }
-    })
+    }
   })
 }
@@ -0,0 +1,191 @@
+/**
+ * Network capture for the browser runtime
+ *
+ * Injected through `virtual:terminal/network` when the `captureNetwork`
+ * option is enabled. Wraps `fetch` and `XMLHttpRequest` to report failed and
+ * slow requests.
+ */
+
+export interface CaptureNetworkOptions {
+  /**
+   * Report requests taking longer than this many milliseconds, `false` to only report failures
+   *
+   * @default 3000
+   */
+  slowThreshold?: number | false
+  /**
+   * Max characters of the response body kept for failed requests
+   *
+   * @default 2000
+   */
+  maxBodyLength?: number
+  /**
+   * Wrap `fetch`
+   *
+   * @default true
+   */
+  fetch?: boolean
+  /**
+   * Wrap `XMLHttpRequest`
+   *
+   * @default true
+   */
+  xhr?: boolean
+}
+
+export function resolveCaptureNetworkOptions(options: boolean | CaptureNetworkOptions = false): Required<CaptureNetworkOptions> | undefined {
+  if (!options)
+    return
+  const {
+    slowThreshold = 3000,
+    maxBodyLength = 2000,
+    fetch = true,
+    xhr = true,
+  } = options === true ? {} : options
+  return { slowThreshold, maxBodyLength, fetch, xhr }
+}
+
+/**
+ * Install the `fetch` and `XMLHttpRequest` wrappers. Requests go through
+ * unchanged, only the failed and slow ones are reported.
+ */
+export function setupNetworkCapture(runtime: {
+  send: (type: string, args?: any[], extra?: Record<string, any>) => void
+}, options: Required<CaptureNetworkOptions>) {
+  const { send } = runtime
+  const scope = globalThis as any
+
+  function resolveUrl(url: string) {
+    try {
+      return new URL(url, scope.location?.href).href
+    }
+    catch {
+      return url
+    }
+  }
+
+  // The terminal and MCP endpoints must not report themselves
+  function isIgnored(url: string) {
+    try {
+      return new URL(url).pathname.startsWith('/__terminal')
+    }
+    catch {
+      return false
+    }
+  }
+
+  function truncate(text: string) {
+    return text.length > options.maxBodyLength
+      ? `${text.slice(0, options.maxBodyLength)}… (${text.length - options.maxBodyLength} more characters)`
+      : text
+  }
+
+  function report(request: {
+    initiator: 'fetch' | 'xhr'
+    method: string
+    url: string
+    status?: number
+    statusText?: string
+    duration: number
+    error?: string
+    body?: string
+  }) {
+    const failed = !!request.error || !request.status || request.status >= 400
+    const slow = options.slowThreshold !== false && request.duration >= options.slowThreshold
+    if (failed || slow)
+      send('network', undefined, { network: { ...request, duration: Math.round(request.duration), failed, slow } })
+  }
+
+  if (options.fetch && typeof scope.fetch === 'function') {
+    const originalFetch = scope.fetch
+    scope.fetch = async function (input: any, init?: any) {
+      const url = resolveUrl(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url)
+      if (isIgnored(url))
+        return originalFetch.call(this, input, init)
+
+      const method = String(init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase()
+      const start = performance.now()
+      let response: Response
+      try {
+        response = await originalFetch.call(this, input, init)
+      }
+      catch (error: any) {
+        if (error?.name !== 'AbortError')
+          report({ initiator: 'fetch', method, url, duration: performance.now() - start, error: String(error?.message ?? error) })
+        throw error
+      }
+
+      const duration = performance.now() - start
+      // Opaque responses (`no-cors`) don't expose their status
+      if (response.type === 'opaque')
+        return response
+      if (!response.ok) {
+        // Read the body of a copy without delaying the caller
+        response.clone().text().then(
+          body => report({ initiator: 'fetch', method, url, status: response.status, statusText: response.statusText, duration, body: truncate(body) }),
+          () => report({ initiator: 'fetch', method, url, status: response.status, statusText: response.statusText, duration }),
+        )
+      }
+      else {
+        report({ initiator: 'fetch', method, url, status: response.status, statusText: response.statusText, duration })
+      }
+      return response
+    }
+  }
+
+  if (options.xhr && typeof scope.XMLHttpRequest === 'function') {
+    const requests = new WeakMap<XMLHttpRequest, { method: string, url: string, start: number, aborted: boolean }>()
+    const { open, send: sendXhr } = scope.XMLHttpRequest.prototype
+
+    function onLoadEnd(this: XMLHttpRequest) {
+      const request = requests.get(this)
+      if (!request || request.aborted)
+        return
+      let body: string | undefined
+      try {
+        if (this.status >= 400 && (this.responseType === '' || this.responseType === 'text'))
+          body = truncate(this.responseText)
+      }
+      catch {}
+      report({
+        initiator: 'xhr',
+        method: request.method,
+        url: request.url,
+        status: this.status,
+        statusText: this.statusText,
+        duration: performance.now() - request.start,
+        error: this.status === 0 ? 'Network request failed' : undefined,
+        body,
+      })
+    }
+
+    function onAbort(this: XMLHttpRequest) {
+      const request = requests.get(this)
+      if (request)
+        request.aborted = true
+    }
+
+    scope.XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...args: any[]) {
+      const resolved = resolveUrl(String(url))
+      if (isIgnored(resolved)) {
+        requests.delete(this)
+      }
+      else {
+        // Adding the same listener again when the request is reused is a no-op
+        this.addEventListener('abort', onAbort)
+        this.addEventListener('loadend', onLoadEnd)
+        requests.set(this, { method: method.toUpperCase(), url: resolved, start: 0, aborted: false })
+      }
+      return open.call(this, method, url, ...args)
+    }
+
+    scope.XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, ...args: any[]) {
+      const request = requests.get(this)
+      if (request) {
+        request.start = performance.now()
+        request.aborted = false
+      }
+      return sendXhr.apply(this, args)
+    }
+  }
+}
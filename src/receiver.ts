@@ -0,0 +1,453 @@
+/**
+ * Handling of the logs sent by the client runtime
+ *
+ * Logs are printed to the terminal and stored for the MCP tools. Shared by the
+ * dev server, the preview server and the standalone collector.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { ClientContext, LogStore, NetworkRequest, StoredLog, TableData, Timing } from './logStore'
+import type { StackFrame, StackResolver } from './stackTrace'
+import { Buffer } from 'node:buffer'
+import readline from 'node:readline'
+import { bold, gray, lightBlue, lightGray, lightGreen, lightMagenta, lightRed, lightYellow } from 'kolorist'
+import { parseURL } from 'ufo'
+import { dispatchLog } from './logQueue'
+import { decode, findErrors, formatArgs, hasStyles } from './serialize'
+import { resolveStackText } from './stackTrace'
+import table, { createTableData, renderMarkdownTable } from './table'
+
+export const methods = ['assert', 'debug', 'error', 'info', 'log', 'table', 'warn', 'clear', 'group', 'groupCollapsed', 'groupEnd', 'trace', 'profileEnd', 'timeLog', 'timeEnd'] as const
+export type Method = typeof methods[number]
+
+// The verbose format pads the method to the longest level, groups and timers overflow
+const METHOD_WIDTH = Math.max(...['assert', 'debug', 'error', 'info', 'log', 'warn'].map(method => method.length))
+
+/**
+ * Log entry as sent by the client runtime
+ */
+export interface IncomingLog {
+  method: string
+  args?: any[]
+  message?: string
+  source?: string
+  network?: NetworkRequest
+  /**
+   * Group the log belongs to, or the group started or ended by the log
+   */
+  groupId?: string
+  /**
+   * Group enclosing a started or ended group
+   */
+  parentGroupId?: string
+  /**
+   * Call stack of `console.trace()`
+   */
+  stack?: string
+  /**
+   * Measured duration of `console.profileEnd()` in milliseconds
+   */
+  duration?: number
+  timing?: Timing
+  /**
+   * URL of the request being rendered, for logs of server-side rendering
+   */
+  requestUrl?: string
+  time: number
+  count: number
+  groupLevel: number
+}
+
+/**
+ * Logs sent together by one client
+ */
+export interface LogBatch {
+  client?: ClientContext
+  /**
+   * Client time when the batch was sent, used to correct clock skew
+   */
+  now?: number
+  logs: IncomingLog[]
+}
+
+const MAX_BODY_SIZE = 5 * 1024 * 1024
+
+const colors = {
+  log: lightMagenta,
+  info: lightGray,
+  debug: lightBlue,
+  warn: lightYellow,
+  error: lightRed,
+  assert: lightRed,
+  trace: lightMagenta,
+  profileEnd: lightMagenta,
+  timeLog: lightMagenta,
+  timeEnd: lightMagenta,
+}
+
+function clientText(client: ClientContext) {
+  let path = client.url ?? ''
+  try {
+    path = new URL(path).pathname
+  }
+  catch {}
+  return `[${client.id.slice(0, 4)}${client.kind === 'window' ? '' : ` ${kindText(client)}`}${path ? ` ${path}` : ''}]`
+}
+
+function kindText(client: ClientContext) {
+  return client.name ? `${client.kind} ${client.name}` : client.kind
+}
+
+function networkText(request: NetworkRequest) {
+  const status = request.status ? `${request.status} ${request.statusText ?? ''}`.trim() : 'failed'
+  const details = [
+    `${request.method} ${request.url} ${status} (${request.duration} ms${request.slow ? ', slow' : ''})`,
+    request.error,
+    request.body,
+  ]
+  return details.filter(Boolean).join('\n')
+}
+
+function traceText(label: string, stack = '') {
+  return [`Trace: ${label || 'console.trace'}`, ...stack.split('\n').filter(Boolean)].join('\n')
+}
+
+function profileText(label: string, duration: number) {
+  return `Profile ${label || 'default'}: ${duration.toFixed(3)} ms`
+}
+
+function timingText(timing: Timing, args: string, duration = formatDuration(timing.duration)) {
+  return `${timing.label}: ${duration}${timing.ended ? ' - timer ended' : ''}${args ? ` ${args}` : ''}`
+}
+
+function formatDuration(duration: number) {
+  return `${duration.toFixed(3)} ms`
+}
+
+function groupText(text: string, groupLevel: number) {
+  if (groupLevel !== 0)
+    return `${'  '.repeat(groupLevel)}${text.split('\n').join(`\n${'  '.repeat(groupLevel)}`)}`
+  else
+    return text
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      // The limit is in bytes, the body is decoded once complete
+      size += chunk.length
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error('Request body too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')))
+    req.on('error', reject)
+  })
+}
+
+/**
+ * Rewrite the stacks found in a log with their original locations.
+ * Returns the frames of the first stack found.
+ */
+async function resolveLogStacks(log: IncomingLog, resolver: StackResolver): Promise<StackFrame[] | undefined> {
+  let frames: StackFrame[] | undefined
+  async function resolveText(text: string) {
+    const resolved = await resolveStackText(text, resolver)
+    if (!frames && resolved.frames.length)
+      frames = resolved.frames
+    return resolved.text
+  }
+
+  // The trace frames come first, they are the point of `console.trace()`
+  if (log.stack)
+    log.stack = await resolveText(log.stack)
+  if (log.args) {
+    for (const error of findErrors(log.args)) {
+      if (typeof error.stack === 'string')
+        error.stack = await resolveText(error.stack)
+    }
+    for (let i = 0; i < log.args.length; i++) {
+      if (typeof log.args[i] === 'string')
+        log.args[i] = await resolveText(log.args[i])
+    }
+  }
+  else if (log.message) {
+    log.message = await resolveText(log.message)
+  }
+  return frames
+}
+
+/**
+ * Server the terminal routes are added to, the Vite dev and preview servers
+ * or the standalone collector
+ */
+export interface TerminalServer {
+  middlewares: {
+    use: (route: string, handle: (req: IncomingMessage, res: ServerResponse, next: (error?: any) => void) => void) => unknown
+  }
+  httpServer?: {
+    on: (event: 'close', listener: () => void) => unknown
+  } | null
+}
+
+/**
+ * Preset of the terminal lines
+ * - 'minimal' - The message only
+ * - 'timestamp' - The message after the local time, like Vite's own logs
+ * - 'verbose' - The local time, the console method and the client
+ */
+export type LogFormat = 'minimal' | 'timestamp' | 'verbose'
+
+/**
+ * Format the terminal line of a log, from the entry stored for MCP. Returning
+ * `undefined` falls back to the `format` preset.
+ */
+export type LogFormatter = (entry: StoredLog) => string | undefined
+
+export interface LogReceiverOptions {
+  logger: {
+    info: (message: string) => void
+    warn: (message: string) => void
+  }
+  logStore?: LogStore | null
+  /**
+   * Stored log levels
+   */
+  levels: string[]
+  /**
+   * Only store the logs captured by the MCP server without printing them
+   */
+  silent?: boolean
+  clientPrefix?: boolean
+  slowTimerThreshold?: number
+  wrapTables?: boolean
+  /**
+   * @default 'minimal'
+   */
+  format?: LogFormat
+  formatter?: LogFormatter
+  /**
+   * Maps the stack frames to the original sources, frames are kept as sent by default
+   */
+  resolver?: StackResolver
+}
+
+export type LogReceiver = (batch: LogBatch) => Promise<void>
+
+export function createLogReceiver(options: LogReceiverOptions): LogReceiver {
+  const { logger, logStore, levels, silent, clientPrefix, slowTimerThreshold, wrapTables, format = 'minimal', formatter, resolver = async frames => frames } = options
+
+  async function resolveStack(log: IncomingLog) {
+    if (!methods.includes(log.method as Method) || log.method === 'table' || log.method === 'clear')
+      return
+    try {
+      return await resolveLogStacks(log, resolver)
+    }
+    catch (e) {
+      logger.warn(`Failed to resolve terminal log stack: ${e}`)
+    }
+  }
+
+  function handleLog(log: IncomingLog, stack?: StackFrame[], client?: ClientContext, clockOffset = 0) {
+    const { count, groupLevel } = log
+    const time = log.time + clockOffset
+    // Requests reported by the network capture are logged as errors or warnings
+    const network = log.method === 'network' ? log.network : undefined
+    const method = (network ? (network.failed ? 'error' : 'warn') : log.method) as Method
+    if (!methods.includes(method))
+      return
+    const argsText = log.args ? formatArgs(log.args) : log.message ?? ''
+    const timing = (method === 'timeLog' || method === 'timeEnd') && log.timing ? log.timing : undefined
+    function toMessage(content: string) {
+      const text = network
+        ? networkText(network)
+        : method === 'trace'
+          ? traceText(content, log.stack)
+          : method === 'profileEnd'
+            ? profileText(content, log.duration ?? 0)
+            : timing ? timingText(timing, content) : content
+      return text.split('\n').join('\n  ')
+    }
+    const message = toMessage(argsText)
+    // The `%c` styles are only rendered in the terminal, the stored message is plain text
+    const styledMessage = log.args && hasStyles(log.args) ? toMessage(formatArgs(log.args, { colors: true })) : message
+
+    // Worker and server-side logs are always tagged, they can't be told apart from the page logs otherwise
+    const prefix = !client
+      ? log.source === 'ssr' ? `${gray(`[ssr${log.requestUrl ? ` ${log.requestUrl}` : ''}]`)} ` : ''
+      : clientPrefix || format === 'verbose'
+        ? `${gray(clientText(client))} `
+        : client.kind.endsWith('worker') ? `${gray(`[${kindText(client)}]`)} ` : ''
+    const isGroup = method === 'group' || method === 'groupCollapsed' || method === 'groupEnd'
+    // Same default label as the browser devtools
+    const groupLabel = message || 'console.group'
+
+    let obj: any
+    let columns: string[] | undefined
+    let tableData: TableData | undefined
+    if (method === 'table') {
+      obj = log.args ? decode(log.args[0]) : JSON.parse(message)
+      const decodedColumns = log.args?.[1] ? decode(log.args[1]) : undefined
+      columns = Array.isArray(decodedColumns) ? decodedColumns : undefined
+      tableData = createTableData(obj, columns)
+    }
+
+    // Entry stored for MCP, also given to the custom formatter
+    const logMethod = method === 'assert' ? 'error' : isGroup || timing || method === 'trace' || method === 'profileEnd' || method === 'table' ? 'log' : method
+    const entry: StoredLog = {
+      method: logMethod as StoredLog['method'],
+      kind: network ? 'network' : method === 'groupEnd' ? 'groupEnd' : isGroup ? 'groupStart' : method === 'trace' ? 'trace' : timing ? 'timing' : tableData ? 'table' : 'log',
+      message: isGroup && method !== 'groupEnd' ? groupLabel : tableData ? renderMarkdownTable(tableData) : message,
+      timestamp: time,
+      count,
+      groupLevel,
+      source: network ? undefined : log.source === 'uncaught' || log.source === 'ssr' ? log.source : 'console',
+      requestUrl: log.requestUrl,
+      client,
+      network,
+      timing,
+      table: tableData,
+      stack,
+      groupId: log.groupId,
+      parentGroupId: log.parentGroupId,
+      collapsed: method === 'groupCollapsed' || undefined,
+    }
+
+    const color = method in colors ? colors[method as keyof typeof colors] : colors.log
+    const head = format === 'minimal'
+      ? ''
+      : `${gray(new Date(time).toLocaleTimeString())} ${format === 'verbose' ? `${color(method.padEnd(METHOD_WIDTH))} ` : ''}`
+    let formatted: string | undefined
+    if (formatter && method !== 'clear' && method !== 'groupEnd') {
+      // A failing formatter falls back to the preset. It gets a copy, the stored
+      // entry is JSON like the logs persisted by the file backend
+      try {
+        formatted = formatter(JSON.parse(JSON.stringify(entry)))
+      }
+      catch (e) {
+        logger.warn(`Terminal formatter failed: ${e}`)
+      }
+    }
+
+    let run
+    if (formatted !== undefined) {
+      run = () => logger.info(formatted)
+    }
+    else {
+      switch (method) {
+        case 'clear': {
+          // Use same logic as in Vite
+          run = () => {
+            if (process.stdout.isTTY && !process.env.CI) {
+              const repeatCount = process.stdout.rows - 2
+              const blank = repeatCount > 0 ? '\n'.repeat(repeatCount) : ''
+
+              console.log(blank)
+              readline.cursorTo(process.stdout, 0, 0)
+              readline.clearScreenDown(process.stdout)
+            }
+          }
+          break
+        }
+        case 'table': {
+          const indent = 2 * (groupLevel + 1)
+          // The table starts on its own line after the timestamp
+          run = () => logger.info(head
+            ? `${head}»${prefix && ` ${prefix.trimEnd()}`}\n${table(obj, indent, 0, { columns, wrap: wrapTables })}`
+            : `» ${table(obj, indent, 2, { columns, wrap: wrapTables })}`)
+          break
+        }
+        case 'group':
+        case 'groupCollapsed': {
+          const header = `${method === 'group' ? '▾' : '▸'} ${groupLabel}`
+          run = () => logger.info(`${head}${colors.log('»')} ${prefix}${bold(colors.log(groupText(header, groupLevel)))}`)
+          break
+        }
+        case 'groupEnd': {
+          // Nothing to print, the following logs are dedented
+          break
+        }
+        case 'timeLog':
+        case 'timeEnd': {
+          if (!timing)
+            break
+          const slow = slowTimerThreshold !== undefined && timing.duration >= slowTimerThreshold
+          const duration = slow ? bold(lightRed(formatDuration(timing.duration))) : lightGreen(formatDuration(timing.duration))
+          run = () => logger.info(`${head}${colors.log('»')} ${prefix}${groupText(timingText(timing, argsText, duration), groupLevel)}`)
+          break
+        }
+        default: {
+          const groupedMessage = groupText(styledMessage, groupLevel)
+          run = () => logger.info(`${head}${color('»')} ${prefix}${color(groupedMessage)}`)
+          break
+        }
+      }
+    }
+
+    // Store in MCP if enabled and log level is allowed, groups are always kept to preserve the structure
+    const shouldStoreInMCP = logStore && method !== 'clear' && (isGroup || levels.includes(logMethod as any))
+    if (shouldStoreInMCP)
+      logStore.add(entry)
+
+    // Only print to terminal if not in silent mode, or if the log level is not being captured by MCP
+    if (run && (!silent || !shouldStoreInMCP)) {
+      dispatchLog({ run, time, count, clientId: client?.id })
+    }
+  }
+
+  async function receiveLogs(batch: LogBatch) {
+    const clockOffset = batch.now ? Date.now() - batch.now : 0
+    // Malformed entries are dropped, the payload comes from the page
+    const logs = batch.logs.filter(log => typeof log?.method === 'string')
+    // Stacks are resolved concurrently, the logs are then handled in order to keep groups nested
+    const stacks = await Promise.all(logs.map(resolveStack))
+    logs.forEach((log, i) => {
+      try {
+        handleLog(log, stacks[i], batch.client, clockOffset)
+      }
+      catch (e) {
+        logger.warn(`Failed to process terminal log: ${e}`)
+      }
+    })
+  }
+
+  return receiveLogs
+}
+
+/**
+ * Receive the logs sent to `/__terminal`
+ */
+export function setupTerminalRoute(server: TerminalServer, receiveLogs: LogReceiver) {
+  server.middlewares.use('/__terminal', async (req: IncomingMessage, res: ServerResponse) => {
+    // Batched logs sent by the client runtime
+    if (req.method === 'POST') {
+      try {
+        await receiveLogs(JSON.parse(await readBody(req)) as LogBatch)
+      }
+      catch {
+        res.statusCode = 400
+      }
+      res.end()
+      return
+    }
+
+    // Single log encoded in the URL, kept for older clients
+    const { pathname, search } = parseURL(req.url)
+    const searchParams = new URLSearchParams(search.slice(1))
+    if (pathname[0] === '/') {
+      await receiveLogs({ logs: [{
+        method: pathname.slice(1),
+        message: searchParams.get('m') ?? '',
+        time: Number.parseInt(searchParams.get('t') ?? '0'),
+        count: Number.parseInt(searchParams.get('c') ?? '0'),
+        groupLevel: Number.parseInt(searchParams.get('g') ?? '0'),
+      }] })
+    }
+    res.end()
+  })
+}
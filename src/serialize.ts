@@ -0,0 +1,420 @@
+/**
+ * Structured serialization of console arguments
+ *
+ * The browser runtime encodes values into a JSON-safe tree, tagging anything
+ * JSON can't represent. The dev server decodes the tree back into values that
+ * `util.inspect` knows how to render.
+ */
+
+import { inspect } from 'node:util'
+import { cssToAnsi } from './consoleStyles'
+
+export interface SerializeOptions {
+  maxDepth?: number
+  maxItems?: number
+  maxStringLength?: number
+  maxNodes?: number
+}
+
+/**
+ * Tag key used for values that can't be represented as plain JSON
+ */
+const TAG = '$t'
+
+/**
+ * Create the encoder used by the browser runtime. The limits keep the tree of
+ * huge or deeply nested values small enough to be sent with every log.
+ */
+export function createSerializer(options: SerializeOptions = {}) {
+  const {
+    maxDepth = 6,
+    maxItems = 100,
+    maxStringLength = 10000,
+    maxNodes = 5000,
+  } = options
+  const tag = '$t'
+
+  return function serialize(value: any): any {
+    const ancestors: any[] = []
+    let nodes = 0
+
+    function getName(obj: any) {
+      try {
+        const name = Object.getPrototypeOf(obj)?.constructor?.name
+        return typeof name === 'string' ? name : ''
+      }
+      catch {
+        return ''
+      }
+    }
+
+    function isNode(obj: any) {
+      return typeof Node !== 'undefined' && obj instanceof Node
+    }
+
+    function encodeNode(node: any) {
+      if (node.nodeType === 1) {
+        const attrs = Array.from(node.attributes as ArrayLike<{ name: string, value: string }>)
+          .slice(0, 10)
+          .map(attr => ` ${attr.name}="${attr.value}"`)
+          .join('')
+        const name = node.tagName.toLowerCase()
+        return { [tag]: 'dom', v: `<${name}${attrs}>${node.childElementCount ? '…' : (node.textContent || '').slice(0, 50)}</${name}>` }
+      }
+      if (node.nodeType === 3)
+        return { [tag]: 'dom', v: `#text ${JSON.stringify((node.textContent || '').slice(0, 100))}` }
+      return { [tag]: 'dom', v: node.nodeName }
+    }
+
+    function encodeError(err: any, depth: number): any {
+      const encoded: any = {
+        [tag]: 'error',
+        name: String(err.name ?? 'Error'),
+        message: String(err.message ?? ''),
+        stack: typeof err.stack === 'string' ? err.stack : undefined,
+      }
+      if (err.cause !== undefined)
+        encoded.cause = encode(err.cause, depth + 1)
+      // Errors grouped by an AggregateError
+      if (Array.isArray(err.errors))
+        encoded.errors = err.errors.slice(0, maxItems).map((item: any) => encode(item, depth + 1))
+      return encoded
+    }
+
+    function encodeEntries(obj: any, depth: number) {
+      const keys = Object.keys(obj)
+      const v: Record<string, any> = {}
+      keys.slice(0, maxItems).forEach((key) => {
+        let item
+        try {
+          item = obj[key]
+        }
+        catch (e: any) {
+          v[key] = { [tag]: 'raw', v: `[Getter threw: ${e?.message ?? e}]` }
+          return
+        }
+        v[key] = encode(item, depth + 1)
+      })
+      return { v, more: Math.max(0, keys.length - maxItems) }
+    }
+
+    function encode(value: any, depth: number): any {
+      switch (typeof value) {
+        case 'string':
+          return value.length > maxStringLength
+            ? { [tag]: 'string', v: value.slice(0, maxStringLength), more: value.length - maxStringLength }
+            : value
+        case 'number':
+          return Number.isFinite(value) && !Object.is(value, -0) ? value : { [tag]: 'number', v: String(Object.is(value, -0) ? '-0' : value) }
+        case 'boolean':
+          return value
+        case 'undefined':
+          return { [tag]: 'undefined' }
+        case 'bigint':
+          return { [tag]: 'bigint', v: value.toString() }
+        case 'symbol':
+          return { [tag]: 'symbol', v: value.description ?? '' }
+        case 'function':
+          return { [tag]: 'function', name: value.name, class: /^class[\s{]/.test(Function.prototype.toString.call(value)) }
+      }
+      if (value === null)
+        return null
+
+      if (++nodes > maxNodes)
+        return { [tag]: 'raw', v: '[Truncated]' }
+      if (ancestors.includes(value))
+        return { [tag]: 'circular' }
+      if (isNode(value))
+        return encodeNode(value)
+      if (value instanceof Date)
+        return { [tag]: 'date', v: Number.isNaN(value.getTime()) ? null : value.toISOString() }
+      if (value instanceof RegExp)
+        return { [tag]: 'regexp', source: value.source, flags: value.flags }
+
+      const name = getName(value)
+      if (depth >= maxDepth)
+        return { [tag]: 'depth', name: Array.isArray(value) ? 'Array' : (name || 'Object') }
+
+      ancestors.push(value)
+      try {
+        if (value instanceof Error)
+          return encodeError(value, depth)
+        if (value instanceof Map) {
+          const entries = Array.from(value.entries()).slice(0, maxItems)
+          return { [tag]: 'map', v: entries.map(([k, v]) => [encode(k, depth + 1), encode(v, depth + 1)]), more: Math.max(0, value.size - maxItems) }
+        }
+        if (value instanceof Set) {
+          const values = Array.from(value.values()).slice(0, maxItems)
+          return { [tag]: 'set', v: values.map(v => encode(v, depth + 1)), more: Math.max(0, value.size - maxItems) }
+        }
+        if (Array.isArray(value)) {
+          const items = value.slice(0, maxItems).map(item => encode(item, depth + 1))
+          if (value.length > maxItems)
+            items.push({ [tag]: 'more', v: value.length - maxItems })
+          return items
+        }
+        const { v, more } = encodeEntries(value, depth)
+        if (more || (name && name !== 'Object') || tag in v)
+          return { [tag]: 'object', name: name === 'Object' ? '' : name, v, more }
+        return v
+      }
+      finally {
+        ancestors.pop()
+      }
+    }
+
+    return encode(value, 0)
+  }
+}
+
+/**
+ * Create the encoder of the arguments of a console call. Format specifiers in
+ * the first argument are substituted like the browser console does, the result
+ * is a `format` node of text, `%c` style and `%o` value segments.
+ *
+ * Values are encoded with the given `serialize`, the tag is repeated because
+ * `TAG` isn't available in the browser.
+ */
+export function createArgsSerializer(serialize: (value: any) => any) {
+  const tag = '$t'
+
+  function toNumber(value: any, parse: (text: string) => number) {
+    return typeof value === 'symbol' ? Number.NaN : parse(String(value))
+  }
+
+  return function serializeArgs(args: any[]): any[] {
+    const [format, ...rest] = args
+    if (typeof format !== 'string' || !format.includes('%'))
+      return args.map(serialize)
+
+    const segments: any[] = []
+    let text = ''
+    let last = 0
+    let next = 0
+    function push(segment: any) {
+      if (text)
+        segments.push(serialize(text))
+      text = ''
+      segments.push(segment)
+    }
+
+    for (const match of format.matchAll(/%[sdifoOjc%]/g)) {
+      text += format.slice(last, match.index)
+      last = match.index! + match[0].length
+      const specifier = match[0][1]
+      if (specifier === '%') {
+        text += '%'
+        continue
+      }
+      // Specifiers without a matching argument are kept as-is
+      if (next >= rest.length) {
+        text += match[0]
+        continue
+      }
+      const value = rest[next++]
+      switch (specifier) {
+        case 's':
+          if ((typeof value === 'object' && value !== null) || typeof value === 'function')
+            push(serialize(value))
+          else
+            text += typeof value === 'bigint' ? `${value}n` : Object.is(value, -0) ? '-0' : String(value)
+          break
+        case 'd':
+        case 'i':
+          text += toNumber(value, input => Number.parseInt(input, 10))
+          break
+        case 'f':
+          text += toNumber(value, Number.parseFloat)
+          break
+        case 'j':
+          try {
+            text += JSON.stringify(value)
+          }
+          catch {
+            text += '[Circular]'
+          }
+          break
+        case 'c':
+          push({ [tag]: 'style', v: String(value) })
+          break
+        default:
+          push(serialize(value))
+      }
+    }
+    text += format.slice(last)
+    if (text)
+      segments.push(serialize(text))
+    return [{ [tag]: 'format', v: segments }, ...rest.slice(next).map(serialize)]
+  }
+}
+
+/**
+ * Text rendered as-is by `util.inspect`
+ */
+class Raw {
+  constructor(private text: string) {}
+
+  [inspect.custom]() {
+    return this.text
+  }
+}
+
+function createNamedObject(name: string) {
+  const ctor = class {}
+  Object.defineProperty(ctor, 'name', { value: name })
+  return Object.create(ctor.prototype)
+}
+
+function decodeError(encoded: any) {
+  const { name, message, stack } = encoded
+  const ErrorClass = (globalThis as any)[name]
+  const errorOptions = 'cause' in encoded ? { cause: decode(encoded.cause) } : undefined
+  // Constructors don't share a signature (e.g. AggregateError), only the prototype is restored
+  const err: Error = new Error(message, errorOptions)
+  if (typeof ErrorClass === 'function' && ErrorClass.prototype instanceof Error)
+    Object.setPrototypeOf(err, ErrorClass.prototype)
+  err.name = name
+  if (Array.isArray(encoded.errors))
+    Object.defineProperty(err, 'errors', { value: encoded.errors.map(decode), writable: true, configurable: true })
+  // Firefox and Safari stacks don't include the error header
+  err.stack = !stack
+    ? `${name}: ${message}`
+    : stack.startsWith(`${name}`)
+      ? stack
+      : `${name}: ${message}\n${stack}`
+  return err
+}
+
+/**
+ * Decode a value encoded by the browser serializer
+ */
+export function decode(encoded: any): any {
+  if (encoded === null || typeof encoded !== 'object')
+    return encoded
+  if (Array.isArray(encoded))
+    return encoded.map(decode)
+  if (!(TAG in encoded)) {
+    const obj: Record<string, any> = {}
+    Object.keys(encoded).forEach(key => obj[key] = decode(encoded[key]))
+    return obj
+  }
+
+  const v = encoded.v
+  switch (encoded[TAG]) {
+    case 'undefined':
+      return undefined
+    case 'number':
+      return Number(v)
+    case 'bigint':
+      return BigInt(v)
+    case 'symbol':
+      return Symbol(v)
+    case 'string':
+      return `${v}... ${encoded.more} more characters`
+    case 'function':
+      return new Raw(encoded.class ? `[class ${encoded.name || '(anonymous)'}]` : `[Function: ${encoded.name || '(anonymous)'}]`)
+    case 'date':
+      return new Date(v ?? Number.NaN)
+    case 'regexp':
+      return new RegExp(encoded.source, encoded.flags)
+    case 'error':
+      return decodeError(encoded)
+    case 'map': {
+      const map = new Map((v as any[]).map(([key, value]) => [decode(key), decode(value)]))
+      if (encoded.more)
+        map.set(new Raw('...'), new Raw(`${encoded.more} more entries`))
+      return map
+    }
+    case 'set': {
+      const set = new Set((v as any[]).map(decode))
+      if (encoded.more)
+        set.add(new Raw(`... ${encoded.more} more items`))
+      return set
+    }
+    case 'object': {
+      const obj = encoded.name ? createNamedObject(encoded.name) : {}
+      Object.keys(v).forEach(key => obj[key] = decode(v[key]))
+      if (encoded.more)
+        obj['...'] = new Raw(`${encoded.more} more properties`)
+      return obj
+    }
+    case 'more':
+      return new Raw(`... ${v} more items`)
+    case 'circular':
+      return new Raw('[Circular]')
+    case 'depth':
+      return new Raw(`[${encoded.name}]`)
+    case 'dom':
+    case 'raw':
+      return new Raw(String(v))
+    case 'format':
+      return new Raw(renderFormat(v, false))
+    default:
+      return new Raw(JSON.stringify(encoded))
+  }
+}
+
+/**
+ * Find every encoded error in an encoded value, including nested causes
+ */
+export function findErrors(encoded: any, found: any[] = []): any[] {
+  if (encoded === null || typeof encoded !== 'object')
+    return found
+  if (Array.isArray(encoded)) {
+    encoded.forEach(item => findErrors(item, found))
+    return found
+  }
+  if (encoded[TAG] === 'error') {
+    found.push(encoded)
+    findErrors(encoded.cause, found)
+    return found
+  }
+  Object.values(TAG in encoded ? encoded.v ?? {} : encoded).forEach(item => findErrors(item, found))
+  return found
+}
+
+/**
+ * Render a decoded value like Node's console does
+ */
+export function inspectValue(value: any): string {
+  return inspect(value, { depth: Infinity, breakLength: 80, colors: false })
+}
+
+function renderValue(encoded: any): string {
+  const value = decode(encoded)
+  return typeof value === 'string' ? value : inspectValue(value)
+}
+
+function isFormat(encoded: any): boolean {
+  return encoded?.[TAG] === 'format' && Array.isArray(encoded.v)
+}
+
+/**
+ * Render the segments of a format node. Styles are dropped unless `colors` is set
+ */
+function renderFormat(segments: any[], colors: boolean): string {
+  let style: ((text: string) => string) | undefined
+  return segments.map((segment) => {
+    if (segment?.[TAG] === 'style') {
+      style = colors ? cssToAnsi(String(segment.v)) : undefined
+      return ''
+    }
+    const text = renderValue(segment)
+    return style ? style(text) : text
+  }).join('')
+}
+
+/**
+ * Whether the arguments use `%c` styles
+ */
+export function hasStyles(args: any[]): boolean {
+  return args.some(arg => isFormat(arg) && arg.v.some((segment: any) => segment?.[TAG] === 'style'))
+}
+
+/**
+ * Render encoded console arguments into a single message, with the `%c`
+ * styles as ANSI escapes if `colors` is set
+ */
+export function formatArgs(args: any[], options: { colors?: boolean } = {}): string {
+  return args.map(arg => isFormat(arg) ? renderFormat(arg.v, !!options.colors) : renderValue(arg)).join(' ')
+}
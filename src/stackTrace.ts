@@ -0,0 +1,153 @@
+/**
+ * Stack trace parsing and source map resolution
+ *
+ * Browser stacks point at the transformed modules served by Vite. Frames are
+ * mapped back to the original files through the module graph and the
+ * transform source maps.
+ */
+
+import type { ViteDevServer } from 'vite'
+import { isAbsolute, relative, resolve } from 'node:path'
+import { originalPositionFor, TraceMap } from '@jridgewell/trace-mapping'
+
+export interface StackFrame {
+  functionName?: string
+  /**
+   * Original file relative to the project root, or the raw URL if it couldn't be resolved
+   */
+  file: string
+  line: number
+  column: number
+  /**
+   * URL of the frame as reported by the browser
+   */
+  url?: string
+  resolved?: boolean
+}
+
+export type StackResolver = (frames: StackFrame[]) => Promise<StackFrame[]>
+
+// at fn (http://localhost:5173/src/App.tsx?t=123:45:12)
+// at http://localhost:5173/src/App.tsx:45:12
+const CHROME_FRAME_RE = /^at (?:(.+?) \()?((?:https?|file|blob):\/\/.+?|\/.+?):(\d+):(\d+)\)?$/
+// fn@http://localhost:5173/src/App.tsx:45:12
+const FIREFOX_FRAME_RE = /^([^@]*)@((?:https?|file|blob):\/\/.+?|\/.+?):(\d+):(\d+)$/
+
+export function parseFrame(line: string): StackFrame | undefined {
+  const trimmed = line.trim()
+  const match = trimmed.match(CHROME_FRAME_RE) || trimmed.match(FIREFOX_FRAME_RE)
+  if (!match)
+    return
+  const [, functionName, url, lineNumber, column] = match
+  return {
+    functionName: functionName || undefined,
+    file: url,
+    line: Number(lineNumber),
+    column: Number(column),
+    url,
+  }
+}
+
+export function parseStack(stack: string): StackFrame[] {
+  return stack.split('\n')
+    .map(parseFrame)
+    .filter((frame): frame is StackFrame => !!frame)
+}
+
+export function formatFrame(frame: StackFrame): string {
+  const location = `${frame.file}:${frame.line}:${frame.column}`
+  return frame.functionName
+    ? `    at ${frame.functionName} (${location})`
+    : `    at ${location}`
+}
+
+/**
+ * Create a resolver mapping frames served by the dev server to their original sources
+ */
+export function createStackResolver(server: ViteDevServer): StackResolver {
+  const root = server.config.root
+  const traceMaps = new WeakMap<object, TraceMap>()
+
+  function toRootRelative(file: string) {
+    const path = relative(root, file).replace(/\\/g, '/')
+    return path.startsWith('..') ? file : path
+  }
+
+  // Loopback hosts are interchangeable, the page may use another one than the printed URLs
+  function normalizeOrigin(url: URL) {
+    const hostname = ['127.0.0.1', '[::1]'].includes(url.hostname) ? 'localhost' : url.hostname
+    return `${url.protocol}//${hostname}:${url.port}`
+  }
+
+  // Scripts of other hosts (CDNs, third parties) may share a path with a local module
+  function isServedByDevServer(url: URL) {
+    const { origin, middlewareMode } = server.config.server
+    // The host serving the pages is unknown in middleware mode
+    if (middlewareMode)
+      return true
+    const origins = [origin, ...server.resolvedUrls?.local ?? [], ...server.resolvedUrls?.network ?? []]
+    return origins.some(served => !!served && normalizeOrigin(new URL(served)) === normalizeOrigin(url))
+  }
+
+  async function resolveFrame(frame: StackFrame): Promise<StackFrame> {
+    if (!frame.url)
+      return frame
+
+    let url: URL
+    try {
+      url = new URL(frame.url, 'http://localhost')
+    }
+    catch {
+      return frame
+    }
+    if (!frame.url.startsWith('/') && (url.protocol === 'http:' || url.protocol === 'https:') && !isServedByDevServer(url))
+      return frame
+    // HMR timestamps aren't part of the module graph URLs
+    url.searchParams.delete('t')
+    url.searchParams.delete('import')
+    const mod = await server.moduleGraph.getModuleByUrl(`${url.pathname}${url.search}`)
+    if (!mod?.file)
+      return frame
+
+    const map = mod.transformResult?.map as any
+    if (map?.mappings) {
+      let traceMap = traceMaps.get(map)
+      if (!traceMap) {
+        traceMap = new TraceMap(map)
+        traceMaps.set(map, traceMap)
+      }
+      const position = originalPositionFor(traceMap, { line: frame.line, column: frame.column - 1 })
+      if (position.source && position.line != null) {
+        const source = position.source.replace(/^file:\/\//, '')
+        const file = isAbsolute(source) ? source : resolve(mod.file, '..', source)
+        return {
+          ...frame,
+          file: toRootRelative(file),
+          line: position.line,
+          column: position.column + 1,
+          resolved: true,
+        }
+      }
+    }
+
+    return { ...frame, file: toRootRelative(mod.file), resolved: true }
+  }
+
+  return frames => Promise.all(frames.map(frame => resolveFrame(frame).catch(() => frame)))
+}
+
+/**
+ * Rewrite every frame found in a text with its resolved location
+ */
+export async function resolveStackText(text: string, resolver: StackResolver): Promise<{ text: string, frames: StackFrame[] }> {
+  const lines = text.split('\n')
+  const parsed = lines.map(parseFrame)
+  const frames = parsed.filter((frame): frame is StackFrame => !!frame)
+  if (!frames.length)
+    return { text, frames }
+
+  const resolved = await resolver(frames)
+  let i = 0
+  const rewritten = lines.map((line, index) => parsed[index] ? formatFrame(resolved[i++]) : line)
+  return { text: rewritten.join('\n'), frames: resolved }
+}
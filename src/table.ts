@@ -1,20 +1,38 @@
+import type { TableData } from './logStore'
+import { inspect } from 'node:util'
 import { gray, lightGray, lightMagenta } from 'kolorist'
 
-export default function table(obj: any, indent = 0, doneFirstLineIndent = 0) {
-  const table = createTable(obj)
-  const maxWidth = process.stdout.columns - indent
-  return renderTable(table, maxWidth, indent, doneFirstLineIndent)
+export interface TableOptions {
+  /**
+   * Properties rendered as columns, like the second argument of `console.table()`
+   */
+  columns?: string[]
+  /**
+   * Wrap long cells on several lines instead of truncating them
+   */
+  wrap?: boolean
 }
 
-export function createTable(obj: any) {
+// Width used when the output is not a TTY, e.g. in CI or when piped
+const FALLBACK_WIDTH = 80
+
+export default function table(obj: any, indent = 0, doneFirstLineIndent = 0, options: TableOptions = {}) {
+  const table = createTable(obj, options.columns)
+  const columns = process.stdout.columns || Number(process.env.COLUMNS) || FALLBACK_WIDTH
+  const maxWidth = columns - indent
+  return renderTable(table, maxWidth, indent, doneFirstLineIndent, options)
+}
+
+export function createTable(obj: any, columns?: string[]) {
   const keys = Object.keys(obj)
-  const shouldRenderValuesCol = keys.some(key => !isObj(obj[key])) || keys.length === 0
-  const shouldRenderKeyCols = keys.some(key => isObj(obj[key]))
+  // Selected columns replace both the properties and the values columns
+  const shouldRenderValuesCol = !columns && (keys.some(key => !isObj(obj[key])) || keys.length === 0)
+  const shouldRenderKeyCols = !!columns || keys.some(key => isObj(obj[key]))
   const rows: string[][] = []
   const allValueKeys: string[] = []
   const headerRow = ['(index)']
   if (shouldRenderKeyCols) {
-    allValueKeys.push(...new Set(keys.flatMap(key => isObj(obj[key]) ? Object.keys(obj[key]) : [])))
+    allValueKeys.push(...new Set(columns ? columns.map(String) : keys.flatMap(key => isObj(obj[key]) ? Object.keys(obj[key]) : [])))
     headerRow.push(...allValueKeys)
   }
   if (shouldRenderValuesCol)
@@ -36,7 +54,36 @@ export function createTable(obj: any) {
   return rows
 }
 
-export function renderTable(rows: string[][], width: number, indent = 0, doneFirstLineIndent = 0) {
+/**
+ * Text of a cell, nested arrays and objects are inspected on a single line
+ */
+export function formatCell(cell: any): string {
+  return isObj(cell) ? inspect(cell, { depth: 1, breakLength: Infinity, colors: false }) : `${cell}`
+}
+
+/**
+ * Headers and formatted rows of a table, as stored for the MCP tools
+ */
+export function createTableData(obj: any, columns?: string[]): TableData {
+  const [headers, ...rows] = createTable(obj, columns)
+  return { headers, rows: rows.map(row => row.map(formatCell)) }
+}
+
+/**
+ * Render a table in Markdown, pipes in the cells are escaped
+ */
+export function renderMarkdownTable(table: TableData) {
+  function renderRow(cells: string[]) {
+    return `| ${cells.map(cell => cell.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')).join(' | ')} |`
+  }
+  return [
+    renderRow(table.headers),
+    `| ${table.headers.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(renderRow),
+  ].join('\n')
+}
+
+export function renderTable(rows: string[][], width: number, indent = 0, doneFirstLineIndent = 0, options: Pick<TableOptions, 'wrap'> = {}) {
   const table: string[] = []
   const minCellWidth = 5
   const maxCols = Math.floor((width - 1) / (minCellWidth + 1))
@@ -44,7 +91,7 @@ export function renderTable(rows: string[][], width: number, indent = 0, doneFir
   const nRows = rowsToRender.length
   const nCols = rowsToRender[0].length
   const cellWidth = Math.floor((width - (nCols + 1)) / nCols)
-  const isTruncated = nCols !== rows[0].length
+  const hiddenCols = rows[0].slice(nCols)
 
   function getCellWidth(index: number) {
     return index === nCols - 1
@@ -55,27 +102,30 @@ export function renderTable(rows: string[][], width: number, indent = 0, doneFir
     const start = chars[0]
     const mid = chars[2]
     const end = chars[4]
-    return `${gray(start)}${row.join(gray(mid))}${gray(isTruncated ? '…' : end)}`
+    return `${gray(start)}${row.join(gray(mid))}${gray(end)}`
   }
   function renderSeparator(chars: string) {
     const line = chars[1]
     const rows = Array.from({ length: nCols }).map((_, index) => gray(line.repeat(getCellWidth(index))))
     return renderRow(rows, chars)
   }
-  function renderCell(cell: string, width: number, color: (str: string | number) => string) {
-    let content: string
-    content = isObj(cell) ? JSON.stringify(cell) : `${cell}`
-    content = content.length > (width - 2) ? `${content.slice(0, width - 3)}…` : content
-    content = content.padEnd(width - 2, ' ')
-    return color(` ${content} `)
+  function renderCell(cell: string, width: number): string[] {
+    const content = formatCell(cell)
+    if (options.wrap)
+      return wrapText(content, width - 2)
+    return [truncateText(content.replace(/\s*\n\s*/g, ' '), width - 2)]
   }
 
   rowsToRender.forEach((row, index) => {
     if (index === 0)
       table.push(renderSeparator('┏━┳━┓'))
     const color = index === 0 ? lightGray : lightMagenta
-    const cells = row.map((cell, index) => renderCell(cell, getCellWidth(index), color))
-    table.push(renderRow(cells, index === 0 ? '┃ ┃ ┃' : '│ │ │'))
+    const cells = row.map((cell, index) => renderCell(cell, getCellWidth(index)))
+    const height = Math.max(...cells.map(lines => lines.length))
+    for (let line = 0; line < height; line++) {
+      const texts = cells.map((lines, index) => color(` ${padText(lines[line] ?? '', getCellWidth(index) - 2)} `))
+      table.push(renderRow(texts, index === 0 ? '┃ ┃ ┃' : '│ │ │'))
+    }
     const chars = (index === 0 && rowsToRender.length === 1)
       ? '┗━┻━┛'
       : index === 0
@@ -86,9 +136,133 @@ export function renderTable(rows: string[][], width: number, indent = 0, doneFir
     table.push(renderSeparator(chars))
   })
 
+  if (hiddenCols.length)
+    table.push(gray(truncateText(`… ${hiddenCols.length} more column${hiddenCols.length > 1 ? 's' : ''}: ${hiddenCols.join(', ')}`, width)))
+
   return `${' '.repeat(indent - doneFirstLineIndent)}${table.join(`\n${' '.repeat(indent)}`)}`
 }
 
 function isObj(obj: any) {
-  return typeof obj === 'object'
+  return typeof obj === 'object' && obj !== null
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_RE = /\u001B\[[\d;]*m/g
+const ZERO_WIDTH_RE = /^[\p{Mn}\p{Me}\p{Cc}\p{Cf}]+$/u
+const EMOJI_RE = /\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F/u
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter() : undefined
+
+interface Token {
+  text: string
+  width: number
+}
+
+function isWide(codePoint: number) {
+  return (codePoint >= 0x1100 && codePoint <= 0x115F) // Hangul Jamo
+    || (codePoint >= 0x2E80 && codePoint <= 0x303E) // CJK radicals and punctuation
+    || (codePoint >= 0x3041 && codePoint <= 0x33FF) // Kana and CJK symbols
+    || (codePoint >= 0x3400 && codePoint <= 0x4DBF) // CJK extension A
+    || (codePoint >= 0x4E00 && codePoint <= 0x9FFF) // CJK unified ideographs
+    || (codePoint >= 0xA000 && codePoint <= 0xA4CF) // Yi
+    || (codePoint >= 0xAC00 && codePoint <= 0xD7A3) // Hangul syllables
+    || (codePoint >= 0xF900 && codePoint <= 0xFAFF) // CJK compatibility ideographs
+    || (codePoint >= 0xFE30 && codePoint <= 0xFE4F) // CJK compatibility forms
+    || (codePoint >= 0xFF00 && codePoint <= 0xFF60) // Fullwidth forms
+    || (codePoint >= 0xFFE0 && codePoint <= 0xFFE6)
+    || (codePoint >= 0x20000 && codePoint <= 0x3FFFD) // CJK extensions B and later
+}
+
+/**
+ * Columns taken by a grapheme in the terminal
+ */
+function graphemeWidth(grapheme: string) {
+  if (ZERO_WIDTH_RE.test(grapheme))
+    return 0
+  return isWide(grapheme.codePointAt(0)!) || EMOJI_RE.test(grapheme) ? 2 : 1
+}
+
+/**
+ * Split a text in graphemes and zero width ANSI escape sequences
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  function pushText(text: string) {
+    const graphemes = segmenter ? Array.from(segmenter.segment(text), ({ segment }) => segment) : Array.from(text)
+    tokens.push(...graphemes.map(grapheme => ({ text: grapheme, width: graphemeWidth(grapheme) })))
+  }
+  let last = 0
+  for (const match of text.matchAll(ANSI_RE)) {
+    pushText(text.slice(last, match.index))
+    tokens.push({ text: match[0], width: 0 })
+    last = match.index! + match[0].length
+  }
+  pushText(text.slice(last))
+  return tokens
+}
+
+/**
+ * Width of a text in the terminal, wide characters take two columns and ANSI escape sequences none
+ */
+export function displayWidth(text: string) {
+  return tokenize(text).reduce((width, token) => width + token.width, 0)
+}
+
+function padText(text: string, width: number) {
+  return `${text}${' '.repeat(Math.max(0, width - displayWidth(text)))}`
+}
+
+/**
+ * Truncate a text to a display width, ANSI escape sequences are kept so that styles are closed
+ */
+export function truncateText(text: string, width: number) {
+  if (displayWidth(text) <= width)
+    return text
+  let used = 0
+  let truncated = ''
+  for (const token of tokenize(text)) {
+    if (token.text.startsWith('\u001B')) {
+      truncated += token.text
+    }
+    else if (used + token.width < width) {
+      truncated += token.text
+      used += token.width
+    }
+    else {
+      used = width
+    }
+  }
+  return `${truncated}…`
+}
+
+/**
+ * Wrap a text on lines of a display width, breaking at spaces when possible
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = []
+  for (const paragraph of text.split('\n')) {
+    let line = ''
+    let lineWidth = 0
+    for (const word of paragraph.split(/(?<= )/)) {
+      if (line && lineWidth + displayWidth(word.trimEnd()) > width) {
+        lines.push(line.trimEnd())
+        line = ''
+        lineWidth = 0
+      }
+      // Words longer than a line are broken
+      for (const token of tokenize(word)) {
+        if (lineWidth + token.width > width) {
+          if (token.text === ' ')
+            continue
+          lines.push(line)
+          line = ''
+          lineWidth = 0
+        }
+        line += token.text
+        lineWidth += token.width
+      }
+    }
+    lines.push(line.trimEnd())
+  }
+  return lines
 }
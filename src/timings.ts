@@ -0,0 +1,57 @@
+/**
+ * Timing aggregation
+ *
+ * Durations measured with `console.timeLog()` and `console.timeEnd()` are
+ * summarized per label, so slow paths stand out without reading every log.
+ */
+
+export interface TimingSample {
+  duration: number
+  timestamp: number
+  clientId?: string
+}
+
+export interface TimingStats {
+  label: string
+  count: number
+  /**
+   * Durations in milliseconds
+   */
+  min: number
+  max: number
+  avg: number
+  p95: number
+  last: number
+  lastSeen: number
+  /**
+   * Ids of the clients that measured the label
+   */
+  clientIds: string[]
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length)
+    return 0
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
+
+export function summarizeTimings(label: string, samples: TimingSample[]): TimingStats {
+  const durations = samples.map(sample => sample.duration).sort((a, b) => a - b)
+  const sum = durations.reduce((total, duration) => total + duration, 0)
+  const last = samples[samples.length - 1]
+  return {
+    label,
+    count: samples.length,
+    min: durations[0],
+    max: durations[durations.length - 1],
+    avg: sum / durations.length,
+    p95: percentile(durations, 95),
+    last: last.duration,
+    lastSeen: last.timestamp,
+    clientIds: [...new Set(samples.map(sample => sample.clientId).filter((id): id is string => !!id))],
+  }
+}
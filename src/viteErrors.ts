@@ -0,0 +1,101 @@
+/**
+ * Capture of the dev server own errors and warnings
+ *
+ * Transform errors, failed dependency optimization, HMR update failures and
+ * plugin warnings never reach the browser console, so they are reported from
+ * the logger, the HMR channel and the plugin hooks.
+ */
+
+import type { Logger, Plugin, ViteDevServer } from 'vite'
+import type { StackFrame } from './stackTrace'
+import { stripColors } from 'kolorist'
+import { parseStack } from './stackTrace'
+
+export interface ViteLog {
+  method: 'error' | 'warn'
+  message: string
+  stack?: StackFrame[]
+}
+
+// The same error is usually logged and sent to the client, report it once
+const DEDUPE_WINDOW_MS = 1000
+
+const wrappedHooks = ['buildStart', 'handleHotUpdate', 'hotUpdate'] as const
+
+export function setupViteErrorCapture(server: ViteDevServer, report: (log: ViteLog) => void, ignoredPlugin?: string) {
+  const recent = new Set<string>()
+  const warned = new Set<string>()
+
+  function reportError(method: ViteLog['method'], message: string, error?: { message?: string, stack?: string }) {
+    const key = error?.message ?? message
+    if (recent.has(key))
+      return
+    recent.add(key)
+    setTimeout(() => recent.delete(key), DEDUPE_WINDOW_MS).unref?.()
+    report({
+      method,
+      message: stripColors(message).trim(),
+      stack: error?.stack ? parseStack(error.stack) : undefined,
+    })
+  }
+
+  // Logger
+  const logger: Logger = server.config.logger
+  const { error, warn, warnOnce } = logger
+  logger.error = (msg, options) => {
+    reportError('error', msg, options?.error ?? undefined)
+    error.call(logger, msg, options)
+  }
+  logger.warn = (msg, options) => {
+    reportError('warn', msg)
+    warn.call(logger, msg, options)
+  }
+  logger.warnOnce = (msg, options) => {
+    if (!warned.has(msg)) {
+      warned.add(msg)
+      reportError('warn', msg)
+    }
+    warnOnce.call(logger, msg, options)
+  }
+
+  // Errors sent to the browser overlay, e.g. failed HMR updates
+  const send = server.ws.send
+  server.ws.send = function (this: any, ...args: any[]) {
+    const payload = args[0]
+    if (payload?.type === 'error' && payload.err) {
+      const { message, plugin, id, loc, frame } = payload.err
+      const details = [
+        `${plugin ? `[plugin ${plugin}] ` : ''}${message}`,
+        id ? `File: ${id}${loc ? `:${loc.line}:${loc.column}` : ''}` : undefined,
+        frame,
+      ]
+      reportError('error', details.filter(Boolean).join('\n'), payload.err)
+    }
+    return (send as any).apply(this, args)
+  } as typeof send
+
+  // Plugin hooks failing while the server starts or applies an update
+  for (const plugin of server.config.plugins as Plugin[]) {
+    if (plugin.name === ignoredPlugin)
+      continue
+    for (const name of wrappedHooks) {
+      const hook = plugin[name] as any
+      if (!hook)
+        continue
+      const handler = typeof hook === 'function' ? hook : hook.handler
+      const wrapped = async function (this: any, ...args: any[]) {
+        try {
+          return await handler.apply(this, args)
+        }
+        catch (e: any) {
+          reportError('error', `[plugin ${plugin.name}] ${name} failed: ${e?.message ?? e}`, e)
+          throw e
+        }
+      }
+      if (typeof hook === 'function')
+        (plugin as any)[name] = wrapped
+      else
+        hook.handler = wrapped
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import type { StoredLog } from '../src/logStore'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { FileBackend } from '../src/fileBackend'
+
+function createLog(message: string, timestamp = Date.now()): StoredLog {
+  return { method: 'log', message, timestamp, count: 0, groupLevel: 0 }
+}
+
+describe('fileBackend', () => {
+  let path: string
+
+  beforeEach(() => {
+    path = mkdtempSync(join(tmpdir(), 'vite-terminal-'))
+  })
+
+  afterEach(() => {
+    rmSync(path, { recursive: true, force: true })
+  })
+
+  it('should reload logs after a restart', () => {
+    const backend = new FileBackend({ path })
+    backend.add(createLog('One'))
+    backend.add(createLog('Two'))
+    backend.close()
+
+    const reloaded = new FileBackend({ path })
+    expect(reloaded.getAll().map(log => log.message)).toEqual(['One', 'Two'])
+  })
+
+  it('should only reload the most recent logs', () => {
+    const backend = new FileBackend({ path })
+    for (let i = 0; i < 5; i++)
+      backend.add(createLog(`${i}`))
+    backend.close()
+
+    const reloaded = new FileBackend({ path, maxLogs: 2 })
+    expect(reloaded.getAll().map(log => log.message)).toEqual(['3', '4'])
+  })
+
+  it('should not reload expired logs', () => {
+    const backend = new FileBackend({ path })
+    backend.add(createLog('Old', Date.now() - 2000))
+    backend.add(createLog('New'))
+    backend.close()
+
+    const reloaded = new FileBackend({ path, maxAge: 1000 })
+    expect(reloaded.getAll().map(log => log.message)).toEqual(['New'])
+  })
+
+  it('should rotate files by size', () => {
+    const backend = new FileBackend({ path, maxFileSize: 100, maxFiles: 1 })
+    for (let i = 0; i < 3; i++) {
+      backend.add(createLog(`Message ${i}`))
+      backend.flush()
+    }
+    backend.close()
+
+    expect(existsSync(join(path, 'logs.1.jsonl'))).toBe(true)
+    expect(existsSync(join(path, 'logs.2.jsonl'))).toBe(false)
+    expect(readFileSync(join(path, 'logs.jsonl'), 'utf-8')).toContain('Message 2')
+
+    const reloaded = new FileBackend({ path })
+    expect(reloaded.getAll().map(log => log.message)).toEqual(['Message 1', 'Message 2'])
+  })
+
+  it('should clear persisted logs', () => {
+    const backend = new FileBackend({ path })
+    backend.add(createLog('One'))
+    backend.add(createLog('Two'))
+    backend.flush()
+    backend.clear(log => log.message === 'One')
+    backend.close()
+
+    const reloaded = new FileBackend({ path })
+    expect(reloaded.getAll().map(log => log.message)).toEqual(['Two'])
+  })
+
+  it('should keep the rotated logs of other clients on a filtered clear', () => {
+    const backend = new FileBackend({ path, maxLogs: 1, maxFileSize: 100 })
+    for (let i = 0; i < 4; i++) {
+      backend.add({ ...createLog(`Message ${i}`), client: { id: i % 2 ? 'b' : 'a', kind: 'window' } })
+      backend.flush()
+    }
+    backend.clear(log => log.client?.id === 'a')
+    backend.close()
+
+    const reloaded = new FileBackend({ path, maxLogs: 10 })
+    expect(reloaded.getAll().map(log => log.message)).toEqual(['Message 1', 'Message 3'])
+  })
+
+  it('should rotate the file once its first log is too old', () => {
+    const backend = new FileBackend({ path, maxAge: 1000 })
+    backend.add(createLog('Old', Date.now() - 2000))
+    backend.flush()
+    backend.add(createLog('New'))
+    backend.close()
+
+    expect(readFileSync(join(path, 'logs.1.jsonl'), 'utf-8')).toContain('Old')
+    expect(readFileSync(join(path, 'logs.jsonl'), 'utf-8')).not.toContain('Old')
+    expect(new FileBackend({ path, maxAge: 1000 }).getAll().map(log => log.message)).toEqual(['New'])
+  })
+
+  it('should keep the logs in memory when the directory is unusable', () => {
+    const file = join(path, 'file')
+    writeFileSync(file, '')
+    const warnings: string[] = []
+    const backend = new FileBackend({ path: join(file, 'logs'), logger: { warn: message => warnings.push(message) } })
+    backend.add(createLog('One'))
+    backend.close()
+
+    expect(warnings).toHaveLength(1)
+    expect(backend.getAll().map(log => log.message)).toEqual(['One'])
+  })
+})
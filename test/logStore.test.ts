@@ -0,0 +1,122 @@
+import type { StoredLog } from '../src/logStore'
+import { describe, expect, it } from 'vitest'
+import { LogStore } from '../src/logStore'
+
+function createLog(message: string, overrides: Partial<StoredLog> = {}): StoredLog {
+  return { method: 'log', message, timestamp: 0, count: 0, groupLevel: 0, ...overrides }
+}
+
+describe('logStore query', () => {
+  function createStore() {
+    const store = new LogStore()
+    store.add(createLog('Loaded', { timestamp: 100 }))
+    store.add(createLog('TypeError: x is undefined', { method: 'error', timestamp: 200 }))
+    store.add(createLog('Login clicked', { method: 'info', timestamp: 300 }))
+    store.add(createLog('TypeError: y is undefined', { method: 'error', timestamp: 400, client: { id: 'abc', kind: 'window' } }))
+    store.add(createLog('Slow request', { method: 'warn', timestamp: 500 }))
+    return store
+  }
+
+  it('should filter by message, levels and time range', () => {
+    const store = createStore()
+    expect(store.query({ message: 'typeerror' }).logs.map(log => log.timestamp)).toEqual([200, 400])
+    expect(store.query({ message: /^Lo/ }).logs.map(log => log.message)).toEqual(['Loaded', 'Login clicked'])
+    expect(store.query({ levels: ['info', 'warn'] }).total).toBe(2)
+    expect(store.query({ message: 'TypeError', from: 300 }).logs.map(log => log.timestamp)).toEqual([400])
+    expect(store.query({ to: 200 }).total).toBe(2)
+    expect(store.query({ clientId: 'ab' }).logs.map(log => log.timestamp)).toEqual([400])
+  })
+
+  it('should page through results with cursors', () => {
+    const store = createStore()
+    const first = store.query({ limit: 2 })
+    expect(first.logs.map(log => log.timestamp)).toEqual([100, 200])
+    expect(first.total).toBe(5)
+
+    const second = store.query({ limit: 2, cursor: first.nextCursor })
+    expect(second.logs.map(log => log.timestamp)).toEqual([300, 400])
+
+    const last = store.query({ limit: 2, cursor: second.nextCursor })
+    expect(last.logs.map(log => log.timestamp)).toEqual([500])
+    expect(last.nextCursor).toBeUndefined()
+  })
+
+  it('should keep cursors stable when new logs arrive', () => {
+    const store = createStore()
+    const first = store.query({ order: 'desc', limit: 2 })
+    expect(first.logs.map(log => log.timestamp)).toEqual([500, 400])
+
+    store.add(createLog('Newer', { timestamp: 600 }))
+    const second = store.query({ order: 'desc', limit: 2, cursor: first.nextCursor })
+    expect(second.logs.map(log => log.timestamp)).toEqual([300, 200])
+  })
+
+  it('should reject invalid cursors', () => {
+    expect(() => createStore().query({ cursor: 'nope' })).toThrow('Invalid cursor')
+  })
+})
+
+describe('logStore error groups', () => {
+  it('should group errors by fingerprint', () => {
+    const store = new LogStore()
+    const stack = [{ functionName: 'App', file: 'src/App.tsx', line: 10, column: 5 }]
+    store.add(createLog('Failed to load item 12', { method: 'error', timestamp: 100, stack, client: { id: 'a', kind: 'window' } }))
+    store.add(createLog('Failed to load item 34', { method: 'error', timestamp: 200, stack: [{ ...stack[0], line: 11 }], client: { id: 'b', kind: 'window' } }))
+    store.add(createLog('Failed to load item 56', { method: 'error', timestamp: 300, stack: [{ ...stack[0], file: 'src/Other.tsx' }] }))
+    store.add(createLog('Something else', { method: 'error', timestamp: 400 }))
+    store.add(createLog('Not an error', { timestamp: 500 }))
+
+    const groups = store.getErrorGroups()
+    expect(groups.map(group => [group.count, group.message])).toEqual([
+      [2, 'Failed to load item 34'],
+      [1, 'Something else'],
+      [1, 'Failed to load item 56'],
+    ])
+    expect(groups[0]).toMatchObject({ firstSeen: 100, lastSeen: 200, clientIds: ['a', 'b'] })
+    expect(store.getErrorGroups({ sort: 'recent', limit: 1 })[0].message).toBe('Something else')
+    expect(store.getErrorGroups({ clientId: 'b' })).toHaveLength(1)
+  })
+
+  it('should keep counting errors dropped from the store', () => {
+    const store = new LogStore(2)
+    for (let i = 0; i < 5; i++)
+      store.add(createLog(`Render failed after ${i}ms`, { method: 'error', timestamp: i }))
+    expect(store.size).toBe(2)
+    expect(store.getErrorGroups()[0].count).toBe(5)
+  })
+})
+
+describe('logStore timings', () => {
+  function createTiming(label: string, duration: number, timestamp: number, clientId?: string) {
+    return createLog(`${label}: ${duration} ms`, {
+      kind: 'timing',
+      timestamp,
+      timing: { label, duration, ended: true },
+      client: clientId ? { id: clientId, kind: 'window' } : undefined,
+    })
+  }
+
+  it('should aggregate durations per label', () => {
+    const store = new LogStore()
+    for (let i = 1; i <= 20; i++)
+      store.add(createTiming('render', i * 10, i, i % 2 ? 'a' : 'b'))
+    store.add(createTiming('fetch users', 500, 30, 'a'))
+    store.add(createLog('render: not a timing'))
+
+    const timings = store.getTimings()
+    expect(timings.map(timing => timing.label)).toEqual(['fetch users', 'render'])
+    expect(timings[1]).toMatchObject({ count: 20, min: 10, max: 200, avg: 105, p95: 190, last: 200, lastSeen: 20 })
+    expect(store.getTimings({ sort: 'count', limit: 1 })[0].label).toBe('render')
+    expect(store.getTimings({ label: 'USERS' })).toHaveLength(1)
+    expect(store.getTimings({ clientId: 'b' })).toMatchObject([{ label: 'render', count: 10, min: 20 }])
+  })
+
+  it('should forget the timings of cleared clients', () => {
+    const store = new LogStore()
+    store.add(createTiming('render', 10, 1, 'a'))
+    store.add(createTiming('render', 20, 2, 'b'))
+    store.add(createTiming('boot', 30, 3, 'a'))
+    store.clear({ clientId: 'a' })
+    expect(store.getTimings()).toMatchObject([{ label: 'render', count: 1, min: 20 }])
+  })
+})
@@ -0,0 +1,142 @@
+import { options as colorOptions } from 'kolorist'
+import { describe, expect, it } from 'vitest'
+import { parseCssColor } from '../src/consoleStyles'
+import { createArgsSerializer, createSerializer, formatArgs } from '../src/serialize'
+
+const serialize = createSerializer()
+
+function format(...args: any[]) {
+  return formatArgs(JSON.parse(JSON.stringify(args.map(serialize))))
+}
+
+describe('serialize', () => {
+  it('should keep plain JSON values as-is', () => {
+    const data = { a: 'One', b: [1, 2], c: { d: true, e: null } }
+    expect(serialize(data)).toEqual(data)
+  })
+
+  it('should mark circular references', () => {
+    const data: any = { a: 1 }
+    data.self = data
+    expect(format(data)).toBe('{ a: 1, self: [Circular] }')
+  })
+
+  it('should not mark repeated references as circular', () => {
+    const shared = { a: 1 }
+    expect(format([shared, shared])).toBe('[ { a: 1 }, { a: 1 } ]')
+  })
+
+  it('should limit depth', () => {
+    const serialize = createSerializer({ maxDepth: 2 })
+    const encoded = serialize({ a: { b: { c: 1 } }, d: [[1]] })
+    expect(formatArgs([encoded])).toBe('{ a: { b: [Object] }, d: [ [Array] ] }')
+  })
+
+  it('should limit the amount of items', () => {
+    const serialize = createSerializer({ maxItems: 2 })
+    expect(formatArgs([serialize([1, 2, 3, 4])])).toBe('[ 1, 2, ... 2 more items ]')
+  })
+
+  it('should truncate long strings', () => {
+    const serialize = createSerializer({ maxStringLength: 3 })
+    expect(formatArgs([serialize('abcdef')])).toBe('abc... 3 more characters')
+  })
+
+  it('should encode values JSON cannot represent', () => {
+    expect(format(BigInt(1), Symbol('s'), undefined, Number.NaN, -0)).toBe('1n Symbol(s) undefined NaN -0')
+    function foo() {}
+    expect(format(foo, class Bar {})).toBe('[Function: foo] [class Bar]')
+    expect(format(new Date(0), /a+/g)).toBe('1970-01-01T00:00:00.000Z /a+/g')
+  })
+
+  it('should encode maps and sets', () => {
+    expect(format(new Map([['a', { b: 1 }]]))).toBe(`Map(1) { 'a' => { b: 1 } }`)
+    expect(format(new Set([1, 2]))).toBe('Set(2) { 1, 2 }')
+  })
+
+  it('should keep class names', () => {
+    class Foo {
+      a = 1
+    }
+    expect(format(new Foo())).toBe('Foo { a: 1 }')
+  })
+
+  it('should escape objects using the tag key', () => {
+    expect(format({ $t: 'undefined' })).toBe(`{ '$t': 'undefined' }`)
+  })
+
+  it('should encode errors with their cause', () => {
+    const error = new TypeError('Outer', { cause: new Error('Inner') })
+    error.stack = 'TypeError: Outer\n    at foo (http://localhost:5173/src/main.ts:1:1)'
+    ;(error.cause as Error).stack = undefined
+    expect(format(error)).toBe([
+      'TypeError: Outer',
+      '    at foo (http://localhost:5173/src/main.ts:1:1) {',
+      '  [cause]: [Error: Inner]',
+      '}',
+    ].join('\n'))
+  })
+
+  it('should encode aggregate errors with their errors and cause', () => {
+    const error = new AggregateError([new Error('First'), 'Second'], 'boom', { cause: new Error('Inner') })
+    error.stack = 'AggregateError: boom\n    at foo (http://localhost:5173/src/main.ts:1:1)'
+    ;(error.errors[0] as Error).stack = undefined
+    ;(error.cause as Error).stack = undefined
+    expect(format(error)).toBe([
+      'AggregateError: boom',
+      '    at foo (http://localhost:5173/src/main.ts:1:1) {',
+      '  [cause]: [Error: Inner],',
+      '  [errors]: [ [Error: First], \'Second\' ]',
+      '}',
+    ].join('\n'))
+  })
+})
+
+describe('format specifiers', () => {
+  const serializeArgs = createArgsSerializer(serialize)
+
+  function formatCall(args: any[], colors = false) {
+    return formatArgs(JSON.parse(JSON.stringify(serializeArgs(args))), { colors })
+  }
+
+  it('should substitute strings and numbers', () => {
+    expect(formatCall(['%s loaded %d items in %f s', 'App', 42.9, '1.5'])).toBe('App loaded 42 items in 1.5 s')
+    expect(formatCall(['%i%% done, %d', '7.5px', Symbol('s')])).toBe('7% done, NaN')
+    expect(formatCall(['%s %s', BigInt(10), -0])).toBe('10n -0')
+  })
+
+  it('should inspect objects and stringify JSON', () => {
+    expect(formatCall(['user %o, %O', { a: 1 }, [1]])).toBe('user { a: 1 }, [ 1 ]')
+    expect(formatCall(['%j', { a: [1] }])).toBe('{"a":[1]}')
+  })
+
+  it('should keep unmatched specifiers and extra arguments', () => {
+    expect(formatCall(['%s and %s', 'one'])).toBe('one and %s')
+    expect(formatCall(['%s', 'one', { two: 2 }])).toBe('one { two: 2 }')
+    expect(formatCall(['100%', 'sure'])).toBe('100% sure')
+  })
+
+  it('should strip %c styles from plain text', () => {
+    expect(formatCall(['%cHello %cworld', 'color: red', ''])).toBe('Hello world')
+  })
+
+  it('should map %c styles to ANSI', () => {
+    const { enabled, supportLevel } = colorOptions
+    colorOptions.enabled = true
+    colorOptions.supportLevel = 1
+    try {
+      expect(formatCall(['%cHello%c world', 'color: #f00; font-weight: bold', ''], true)).toBe('\x1B[1m\x1B[91mHello\x1B[39m\x1B[22m world')
+    }
+    finally {
+      Object.assign(colorOptions, { enabled, supportLevel })
+    }
+  })
+
+  it('should parse CSS colors', () => {
+    expect(parseCssColor('Orange')).toEqual([255, 165, 0])
+    expect(parseCssColor('#0f08')).toEqual([0, 255, 0])
+    expect(parseCssColor('rgb(10 20 30 / 50%)')).toEqual([10, 20, 30])
+    expect(parseCssColor('rgba(0, 0, 0, 0)')).toBeUndefined()
+    expect(parseCssColor('var(--accent)')).toBeUndefined()
+  })
+})
@@ -0,0 +1,86 @@
+import type { ViteDevServer } from 'vite'
+import { describe, expect, it } from 'vitest'
+import { createStackResolver, parseStack, resolveStackText } from '../src/stackTrace'
+
+describe('parseStack', () => {
+  it('should parse Chrome stacks', () => {
+    const stack = [
+      'TypeError: Cannot read properties of undefined',
+      '    at App (http://localhost:5173/src/App.tsx?t=123:45:12)',
+      '    at new Foo (http://localhost:5173/src/foo.ts:1:2)',
+      '    at http://localhost:5173/src/main.ts:3:4',
+    ].join('\n')
+    expect(parseStack(stack)).toEqual([
+      { functionName: 'App', file: 'http://localhost:5173/src/App.tsx?t=123', url: 'http://localhost:5173/src/App.tsx?t=123', line: 45, column: 12 },
+      { functionName: 'new Foo', file: 'http://localhost:5173/src/foo.ts', url: 'http://localhost:5173/src/foo.ts', line: 1, column: 2 },
+      { functionName: undefined, file: 'http://localhost:5173/src/main.ts', url: 'http://localhost:5173/src/main.ts', line: 3, column: 4 },
+    ])
+  })
+
+  it('should parse Firefox and Safari stacks', () => {
+    const stack = [
+      'App@http://localhost:5173/src/App.tsx:45:12',
+      '@http://localhost:5173/src/main.ts:3:4',
+    ].join('\n')
+    expect(parseStack(stack)).toEqual([
+      { functionName: 'App', file: 'http://localhost:5173/src/App.tsx', url: 'http://localhost:5173/src/App.tsx', line: 45, column: 12 },
+      { functionName: undefined, file: 'http://localhost:5173/src/main.ts', url: 'http://localhost:5173/src/main.ts', line: 3, column: 4 },
+    ])
+  })
+
+  it('should ignore lines that are not frames', () => {
+    expect(parseStack('Error: Something failed\nSee http://example.com for details')).toEqual([])
+  })
+})
+
+describe('resolveStackText', () => {
+  it('should rewrite frames with their resolved locations', async () => {
+    const text = [
+      'Error: Something failed',
+      '    at App (http://localhost:5173/src/App.tsx?t=123:45:12)',
+      'App@http://localhost:5173/src/App.tsx:45:12',
+    ].join('\n')
+    const { text: resolved, frames } = await resolveStackText(text, async frames => frames.map(frame => ({
+      ...frame,
+      file: 'src/App.tsx',
+      line: 10,
+      column: 5,
+      resolved: true,
+    })))
+    expect(resolved).toBe([
+      'Error: Something failed',
+      '    at App (src/App.tsx:10:5)',
+      '    at App (src/App.tsx:10:5)',
+    ].join('\n'))
+    expect(frames).toHaveLength(2)
+  })
+})
+
+describe('createStackResolver', () => {
+  const server = {
+    config: { root: '/project', server: {} },
+    resolvedUrls: { local: ['http://localhost:5173/'], network: ['http://192.168.1.2:5173/'] },
+    moduleGraph: {
+      getModuleByUrl: async (url: string) => url === '/src/main.ts' ? { file: '/project/src/main.ts' } : undefined,
+    },
+  } as unknown as ViteDevServer
+
+  it('should resolve frames served by the dev server', async () => {
+    const frames = parseStack([
+      'at http://localhost:5173/src/main.ts:3:4',
+      'at http://127.0.0.1:5173/src/main.ts:3:4',
+      'at http://192.168.1.2:5173/src/main.ts?t=123:3:4',
+    ].join('\n'))
+    const resolved = await createStackResolver(server)(frames)
+    expect(resolved.map(frame => frame.file)).toEqual(['src/main.ts', 'src/main.ts', 'src/main.ts'])
+  })
+
+  it('should keep frames of other origins', async () => {
+    const frames = parseStack([
+      'at https://cdn.example.com/src/main.ts:3:4',
+      'at http://localhost:3000/src/main.ts:3:4',
+    ].join('\n'))
+    const resolved = await createStackResolver(server)(frames)
+    expect(resolved).toEqual(frames)
+  })
+})
@@ -1,5 +1,5 @@
-import { describe, expect, it } from 'vitest'
-import { createTable, renderTable } from '../src/table'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import table, { createTable, createTableData, displayWidth, renderMarkdownTable, renderTable, truncateText, wrapText } from '../src/table'
 
 describe('createTable', () => {
   it('should handle empty values', () => {
@@ -91,6 +91,27 @@ describe('createTable', () => {
       ['2', '', '', '', '', 'Plain string'],
     ])
   })
+
+  it('should only render the selected columns', () => {
+    const data = [
+      { a: 'One', b: 'Two' },
+      'Plain string',
+    ]
+    expect(createTable(data, ['b', 'c'])).toEqual([
+      ['(index)', 'b', 'c'],
+      ['0', 'Two', ''],
+      ['1', '', ''],
+    ])
+  })
+
+  it('should handle null values', () => {
+    const data = [{ a: null }, null]
+    expect(createTable(data)).toEqual([
+      ['(index)', 'a', 'Values'],
+      ['0', null, ''],
+      ['1', '', null],
+    ])
+  })
 })
 
 describe('renderTable', () => {
@@ -109,7 +130,7 @@ describe('renderTable', () => {
 ┏━━━━━━━━━━━━━━━━━━┳━━━━━━━━━━━━━━━━━━━┓
 ┃ (index)          ┃ 0                 ┃
 ┡━━━━━━━━━━━━━━━━━━╇━━━━━━━━━━━━━━━━━━━┩
-│ 0                │ ["a","b"]         │
+│ 0                │ [ 'a', 'b' ]      │
 └──────────────────┴───────────────────┘
 `.trim())
   })
@@ -120,7 +141,7 @@ describe('renderTable', () => {
 ┏━━━━━━━━━━━━━━━━━━┳━━━━━━━━━━━━━━━━━━━┓
 ┃ (index)          ┃ 0                 ┃
 ┡━━━━━━━━━━━━━━━━━━╇━━━━━━━━━━━━━━━━━━━┩
-│ 0                │ {"a":"One"}       │
+│ 0                │ { a: 'One' }      │
 └──────────────────┴───────────────────┘
 `.trim())
   })
@@ -139,11 +160,12 @@ describe('renderTable', () => {
   it ('should truncate amount of columns', () => {
     const data = [{ a: 'One', b: 'Two', c: 'Three', d: 'Four', e: 'Five', f: 'Six' }]
     expect(renderTable(createTable(data), 40)).toBe(`
-┏━━━━━┳━━━━━┳━━━━━┳━━━━━┳━━━━━┳━━━━━━━━…
-┃ (i… ┃ a   ┃ b   ┃ c   ┃ d   ┃ e      …
-┡━━━━━╇━━━━━╇━━━━━╇━━━━━╇━━━━━╇━━━━━━━━…
-│ 0   │ One │ Two │ Th… │ Fo… │ Five   …
-└─────┴─────┴─────┴─────┴─────┴────────…
+┏━━━━━┳━━━━━┳━━━━━┳━━━━━┳━━━━━┳━━━━━━━━┓
+┃ (i… ┃ a   ┃ b   ┃ c   ┃ d   ┃ e      ┃
+┡━━━━━╇━━━━━╇━━━━━╇━━━━━╇━━━━━╇━━━━━━━━┩
+│ 0   │ One │ Two │ Th… │ Fo… │ Five   │
+└─────┴─────┴─────┴─────┴─────┴────────┘
+… 1 more column: f
 `.trim())
   })
 
@@ -157,4 +179,99 @@ describe('renderTable', () => {
   └─────────────────┴──────────────────┘
 `.trim())
   })
+
+  it ('should measure wide characters', () => {
+    const data = [{ name: '日本語のテキスト', icon: '🚀🚀' }]
+    expect(renderTable(createTable(data), 40)).toBe(`
+┏━━━━━━━━━━━━┳━━━━━━━━━━━━┳━━━━━━━━━━━━┓
+┃ (index)    ┃ name       ┃ icon       ┃
+┡━━━━━━━━━━━━╇━━━━━━━━━━━━╇━━━━━━━━━━━━┩
+│ 0          │ 日本語の…  │ 🚀🚀       │
+└────────────┴────────────┴────────────┘
+`.trim())
+  })
+
+  it ('should ignore ANSI escape sequences when padding', () => {
+    const data = ['\u001B[31mred\u001B[39m']
+    expect(renderTable(createTable(data), 30).split('\n')[3]).toBe('│ 0           │ \u001B[31mred\u001B[39m          │')
+  })
+
+  it ('should wrap cell content', () => {
+    const data = ['This string is too long to fit in the cell']
+    expect(renderTable(createTable(data), 40, 0, 0, { wrap: true })).toBe(`
+┏━━━━━━━━━━━━━━━━━━┳━━━━━━━━━━━━━━━━━━━┓
+┃ (index)          ┃ Values            ┃
+┡━━━━━━━━━━━━━━━━━━╇━━━━━━━━━━━━━━━━━━━┩
+│ 0                │ This string is    │
+│                  │ too long to fit   │
+│                  │ in the cell       │
+└──────────────────┴───────────────────┘
+`.trim())
+  })
+})
+
+describe('table data', () => {
+  it('should format the cells', () => {
+    const data = [{ a: 'One', b: [1, 2] }, 3]
+    expect(createTableData(data)).toEqual({
+      headers: ['(index)', 'a', 'b', 'Values'],
+      rows: [
+        ['0', 'One', '[ 1, 2 ]', ''],
+        ['1', '', '', '3'],
+      ],
+    })
+  })
+
+  it('should render Markdown tables', () => {
+    const data = [{ a: 'One | Two', b: 'Three\nFour' }]
+    expect(renderMarkdownTable(createTableData(data))).toBe(`
+| (index) | a | b |
+| --- | --- | --- |
+| 0 | One \\| Two | Three Four |
+`.trim())
+  })
+})
+
+describe('table', () => {
+  const columns = process.stdout.columns
+
+  afterEach(() => {
+    process.stdout.columns = columns
+    vi.unstubAllEnvs()
+  })
+
+  it('should fall back to 80 columns without a TTY', () => {
+    process.stdout.columns = undefined as any
+    vi.stubEnv('COLUMNS', '')
+    const lines = table(['a']).split('\n')
+    expect(lines.every(line => displayWidth(line) === 80)).toBe(true)
+  })
+
+  it('should use the COLUMNS environment variable', () => {
+    process.stdout.columns = undefined as any
+    vi.stubEnv('COLUMNS', '60')
+    expect(displayWidth(table(['a'], 2).split('\n')[0])).toBe(60)
+  })
+})
+
+describe('text width', () => {
+  it('should measure the display width', () => {
+    expect(displayWidth('abc')).toBe(3)
+    expect(displayWidth('漢字')).toBe(4)
+    expect(displayWidth('🚀')).toBe(2)
+    expect(displayWidth('👨‍👩‍👧')).toBe(2)
+    expect(displayWidth('e\u0301')).toBe(1)
+    expect(displayWidth('\u001B[31mab\u001B[39m')).toBe(2)
+  })
+
+  it('should truncate to the display width', () => {
+    expect(truncateText('日本語', 4)).toBe('日…')
+    expect(truncateText('\u001B[31mabcdef\u001B[39m', 4)).toBe('\u001B[31mabc\u001B[39m…')
+  })
+
+  it('should wrap at spaces and break long words', () => {
+    expect(wrapText('one two three', 8)).toEqual(['one two', 'three'])
+    expect(wrapText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij'])
+    expect(wrapText('a\nb', 4)).toEqual(['a', 'b'])
+  })
 })